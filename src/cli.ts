@@ -1,32 +1,276 @@
 #!/usr/bin/env node
 
-import { stripTS } from './strip-ts.js';
+import { realpathSync } from 'fs';
+import fs from 'fs/promises';
+import readline from 'readline/promises';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import {
+	planInPlace,
+	stripTS,
+	watchStrip,
+	type InPlacePlan,
+	type StripTSFileResult,
+	type StripTSOptions,
+} from './strip-ts.js';
 
-async function main(): Promise<void> {
-	const args = process.argv.slice(2);
+const HELP = `Usage: strip-ts [options] [glob1] [glob2] ...
 
-	// Parse command line arguments
-	const forceStrip = args.includes('--force-strip');
-	const globs = args.filter((arg) => !arg.startsWith('--'));
+Strips TypeScript from .ts, .tsx, .mts, .cts, .vue, .svelte and .astro files, and from the
+code fences of .md and .mdx files. Globs and options that aren't given are taken from
+strip-ts.config.{ts,mjs,js,json} or the "strip-ts" key of package.json.
 
-	if (globs.length === 0) {
-		console.error('Please provide file globs to process.');
-		console.error('Usage: strip-ts [--force-strip] <glob1> [glob2] ...');
-		process.exit(1);
+Options:
+  --config <path>                         Config file to load instead of the one in the current directory
+  --no-config                             Don't load a config file
+  --target <name>                         Process only this target of the config file
+  --out-dir <dir>                         Output directory (default: output)
+  --root-dir <dir>                        Directory whose structure is mirrored under the output directory
+                                          (default: the common base directory of the globs)
+  --force-strip                           Strip Vue and Svelte scripts without lang="ts"
+  --no-remove-unused-imports              Keep imports that are unused after stripping
+  --verbatim-module-syntax                Keep imports and exports as written, except those marked with type
+  --imports-not-used-as-values <mode>     remove or preserve imports only used as types (default: remove)
+  --jsx-runtime <runtime>                 automatic or classic (default: automatic)
+  --decorators <mode>                     preserve TC39 decorators or lower legacy ones (default: preserve)
+  --import-extensions <mode>              rewrite, explicit or preserve relative import extensions
+                                          (default: rewrite)
+  --jsdoc                                 Keep removed types as JSDoc comments
+  --source-map                            Write a .map file next to each output file
+  --inline-source-map                     Add source maps to the output as data URLs
+  --in-place                              Replace each source with its JavaScript file, delete declaration files,
+                                          convert tsconfig.json to jsconfig.json and remove TypeScript from the
+                                          devDependencies of package.json, after showing the plan
+  --git-mv                                With --in-place, rename and delete files with git to keep their history
+  -y, --yes                               Apply the --in-place plan without asking
+  --dry-run                               Show whether each output file would be created, changed or left
+                                          unchanged, without writing anything
+  --diff                                  Print a unified diff of each output file against its previous content
+  --watch                                 Keep the output in sync as sources change
+  -h, --help                              Show this help
+  -v, --version                           Show the version`;
+
+/**
+ * Returns the value of a flag that takes one of a set of values
+ * @param flag - The flag name
+ * @param value - The value given on the command line
+ * @param choices - The allowed values
+ * @returns The value, or undefined if the flag wasn't given
+ */
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T | undefined {
+	if (value !== undefined && !choices.includes(value as T)) {
+		throw new Error(`Invalid value for --${flag}: ${value}. Expected one of ${choices.join(', ')}`);
+	}
+	return value as T | undefined;
+}
+
+/**
+ * Reads the version of the package, from the package.json next to the source and dist directories
+ */
+async function getVersion(): Promise<string> {
+	const packageJson = JSON.parse(await fs.readFile(new URL('../package.json', import.meta.url), 'utf-8'));
+	return packageJson.version;
+}
+
+/**
+ * Parses the command line arguments, throwing for unknown flags and invalid values
+ * @param args - The arguments after the script name
+ * @returns The globs, the options for stripTS, and the flags that aren't stripTS options
+ */
+export function parseArguments(args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			config: { type: 'string' },
+			'no-config': { type: 'boolean' },
+			target: { type: 'string' },
+			'out-dir': { type: 'string' },
+			'root-dir': { type: 'string' },
+			'force-strip': { type: 'boolean' },
+			'no-remove-unused-imports': { type: 'boolean' },
+			'verbatim-module-syntax': { type: 'boolean' },
+			'imports-not-used-as-values': { type: 'string' },
+			'jsx-runtime': { type: 'string' },
+			decorators: { type: 'string' },
+			'import-extensions': { type: 'string' },
+			jsdoc: { type: 'boolean' },
+			'source-map': { type: 'boolean' },
+			'inline-source-map': { type: 'boolean' },
+			'in-place': { type: 'boolean' },
+			'git-mv': { type: 'boolean' },
+			yes: { type: 'boolean', short: 'y' },
+			'dry-run': { type: 'boolean' },
+			diff: { type: 'boolean' },
+			watch: { type: 'boolean' },
+			help: { type: 'boolean', short: 'h' },
+			version: { type: 'boolean', short: 'v' },
+		},
+	});
+
+	// Flags that aren't given are left undefined, so they don't override the config file
+	const options: StripTSOptions = {
+		config: values['no-config'] ? false : values.config,
+		target: values.target,
+		outDir: values['out-dir'],
+		rootDir: values['root-dir'],
+		forceStrip: values['force-strip'],
+		removeUnusedImports: values['no-remove-unused-imports'] ? false : undefined,
+		verbatimModuleSyntax: values['verbatim-module-syntax'],
+		importsNotUsedAsValues: parseChoice('imports-not-used-as-values', values['imports-not-used-as-values'], [
+			'remove',
+			'preserve',
+		]),
+		jsxRuntime: parseChoice('jsx-runtime', values['jsx-runtime'], ['classic', 'automatic']),
+		decorators: parseChoice('decorators', values.decorators, ['preserve', 'legacy']),
+		importExtensions: parseChoice('import-extensions', values['import-extensions'], [
+			'rewrite',
+			'explicit',
+			'preserve',
+		]),
+		jsdoc: values.jsdoc,
+		sourceMap: values['inline-source-map'] ? 'inline' : values['source-map'],
+		inPlace: values['in-place'],
+		gitMove: values['git-mv'],
+		dryRun: values['dry-run'],
+		diff: values.diff,
+	};
+	return {
+		globs: positionals.length > 0 ? positionals : undefined,
+		options,
+		watch: values.watch,
+		yes: values.yes,
+		help: values.help,
+		version: values.version,
+	};
+}
+
+/**
+ * Prints the changes of in-place conversions
+ * @param plans - The plan of each target
+ */
+function printPlan(plans: InPlacePlan[]): void {
+	console.log('📋 In-place conversion plan:');
+	for (const plan of plans) {
+		for (const { source, outPath } of plan.files) {
+			console.log(outPath === source ? `  ${source} (converted in place)` : `  ${source} → ${outPath}`);
+		}
+		for (const declaration of plan.declarations) {
+			console.log(`  delete ${declaration}`);
+		}
+		if (plan.tsconfig) {
+			console.log(`  ${plan.tsconfig.source} → ${plan.tsconfig.outPath}`);
+		}
+		if (plan.packageJson) {
+			const { path, removedDependencies } = plan.packageJson;
+			console.log(`  remove ${removedDependencies.join(', ')} from the devDependencies of ${path}`);
+		}
+	}
+}
+
+/**
+ * Prints what was done, or with dryRun would be done, to each output file, followed by its diff
+ * @param results - The result of each file
+ * @param dryRun - Whether nothing was written
+ */
+function printResults(results: StripTSFileResult[], dryRun = false): void {
+	for (const { outPath, status, diff } of results) {
+		if (dryRun) {
+			console.log(`🔍 ${status === 'unchanged' ? 'Unchanged' : `Would be ${status}`}: ${outPath}`);
+		} else {
+			console.log(status === 'unchanged' ? `➖ Output unchanged: ${outPath}` : `✅ Output written: ${outPath}`);
+		}
+		if (diff) {
+			console.log(diff);
+		}
+	}
+}
+
+/**
+ * Asks whether to apply the in-place plan, which is only possible when the terminal is interactive.
+ * Otherwise the exit code is set to 1, so scripts don't take the conversion for done.
+ * @returns Whether the plan was confirmed
+ */
+async function confirmPlan(): Promise<boolean> {
+	if (!process.stdin.isTTY) {
+		console.log('Run again with --yes to apply these changes.');
+		process.exitCode = 1;
+		return false;
 	}
+	const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+	const answer = await prompt.question('Apply these changes? (y/N) ');
+	prompt.close();
+	return /^y(es)?$/i.test(answer.trim());
+}
 
+/**
+ * Runs the CLI, setting the exit code to 1 when the arguments are invalid or any file fails
+ * @param args - The arguments after the script name
+ */
+export async function main(args: string[] = process.argv.slice(2)): Promise<void> {
+	let parsed: ReturnType<typeof parseArguments>;
 	try {
-		const outPaths = await stripTS(globs, { forceStrip });
-		if (outPaths.length === 0) {
-			console.warn('⚠️ No files matched the provided patterns.');
+		parsed = parseArguments(args);
+	} catch (err) {
+		console.error('❌ Error:', err instanceof Error ? err.message : String(err));
+		console.error('Run strip-ts --help for usage.');
+		process.exitCode = 1;
+		return;
+	}
+
+	const { globs, options } = parsed;
+	if (parsed.help) {
+		console.log(HELP);
+		return;
+	}
+	if (parsed.version) {
+		console.log(await getVersion());
+		return;
+	}
+
+	try {
+		const onError = (err: unknown, file?: string) => {
+			const message = err instanceof Error ? err.message : String(err);
+			console.error(file ? `❌ Error processing ${file}:` : '❌ Error:', message);
+			process.exitCode = 1;
+		};
+
+		if (parsed.watch) {
+			// The watcher keeps the process running until it is interrupted
+			await watchStrip(globs, {
+				...options,
+				onWrite: (outPath) => console.log(`✅ Output written: ${outPath}`),
+				onDelete: (outPath) => console.log(`🗑️ Output deleted: ${outPath}`),
+				onError,
+			});
+			console.log('👀 Watching for changes...');
 			return;
 		}
-		for (const outPath of outPaths) {
-			console.log(`✅ Output written: ${outPath}`);
+
+		// Converting in place changes the sources, so the whole plan is shown before anything is touched
+		const plans = await planInPlace(globs, options);
+		if (plans.length > 0) {
+			printPlan(plans);
+			// A dry run only shows what would be written, so there is nothing to confirm
+			if (!options.dryRun && !parsed.yes && !(await confirmPlan())) {
+				console.log('No files were changed.');
+				return;
+			}
 		}
+
+		const results = await stripTS(globs, { ...options, onError });
+		if (results.length === 0 && !process.exitCode) {
+			console.warn('⚠️ No files matched the provided patterns.');
+			return;
+		}
+		printResults(results, options.dryRun);
 	} catch (err) {
 		console.error('❌ Error:', err instanceof Error ? err.message : String(err));
+		process.exitCode = 1;
 	}
 }
 
-main();
+// The CLI only runs when this file is the script being run, such as through the bin link, and not when imported
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+	main();
+}
@@ -1,667 +1,4447 @@
 import fs from 'fs/promises';
+import { statSync, watch } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import path from 'path';
+import { pathToFileURL } from 'url';
 import fg from 'fast-glob';
+import { createTwoFilesPatch } from 'diff';
 import esbuild from 'esbuild';
 import * as ts from 'typescript';
+import * as t from '@babel/types';
 import { parse as babelParse } from '@babel/parser';
-import { parse as parseVue, compileScript } from '@vue/compiler-sfc';
-import { preprocess } from 'svelte/compiler';
-import sveltePreprocess from 'svelte-preprocess';
+import { encode, decode, type SourceMapMappings, type SourceMapSegment } from '@jridgewell/sourcemap-codec';
+import { parse as parseVue, compileScript, type SFCScriptBlock } from '@vue/compiler-sfc';
+import { parse as parseSvelte } from 'svelte/compiler';
 
 /**
- * Removes unused imports from JavaScript/TypeScript code
- * @param code - The code to process
- * @param isJSX - Whether the code contains JSX
+ * Extracts the function exported by a Babel package, which depending on the module
+ * interop in use may be the module itself, its default export or a nested default export
+ * @param module - The imported module
+ * @returns The exported function, or the module itself if none could be found
+ */
+function resolveBabelExport(module: any): any {
+	if (typeof module === 'object') {
+		if (typeof module['default'] === 'function') {
+			return module['default'];
+		} else if (typeof module['default'] === 'object' && typeof module['default']['default'] === 'function') {
+			return module['default']['default'];
+		}
+	}
+	return module;
+}
+
+/**
+ * Loads Babel's traverse and generate functions
+ * @returns The traverse and generate functions
+ */
+async function loadBabel(): Promise<{ traverse: any; generate: any }> {
+	// Use dynamic imports that work better with TypeScript compilation
+	const [traverseModule, generateModule] = await Promise.all([
+		import('@babel/traverse'),
+		import('@babel/generator'),
+	]);
+
+	const traverse = resolveBabelExport(traverseModule);
+	if (typeof traverse !== 'function') {
+		throw new Error('Babel traverse is not a function');
+	}
+
+	const generate = resolveBabelExport(generateModule);
+	if (typeof generate !== 'function') {
+		throw new Error('Babel generate is not a function');
+	}
+
+	return { traverse, generate };
+}
+
+/**
+ * A source map, as written to `.map` files
+ */
+export interface SourceMap {
+	version: 3;
+	file?: string;
+	sources: string[];
+	sourcesContent: string[];
+	names: string[];
+	mappings: string;
+}
+
+/**
+ * The types of file TypeScript can be stripped from, named after their extensions
+ */
+export type FileType = 'ts' | 'tsx' | 'mts' | 'cts' | 'vue' | 'svelte' | 'astro' | 'md' | 'mdx';
+
+/**
+ * Code produced by a step of the conversion, with its decoded source map mappings when source maps are enabled.
+ * Every mapping refers to a single source, the file being converted.
+ */
+interface TransformResult {
+	code: string;
+	mappings?: SourceMapMappings;
+}
+
+/**
+ * A replacement of the text between two offsets
+ */
+interface TextEdit {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Applies text edits to code, tracking which line of the input each line of the output comes from.
+ * @param code - The code to edit
+ * @param edits - Edits that don't overlap, in any order
+ * @returns The edited code, and for each output line the input line of the first unedited text on it,
+ * or undefined for lines with only inserted text
+ */
+function applyEdits(code: string, edits: TextEdit[]): { code: string; lines: (number | undefined)[] } {
+	const chunks: string[] = [];
+	const lines: (number | undefined)[] = [undefined];
+	let inputLine = 0;
+	let position = 0;
+
+	const push = (text: string, original: boolean) => {
+		for (const char of text) {
+			if (char === '\n') {
+				lines.push(undefined);
+				if (original) inputLine++;
+			} else if (original && lines[lines.length - 1] === undefined) {
+				lines[lines.length - 1] = inputLine;
+			}
+		}
+		chunks.push(text);
+	};
+
+	for (const { start, end, text } of [...edits].sort((a, b) => a.start - b.start)) {
+		push(code.slice(position, start), true);
+		push(text, false);
+		inputLine += code.slice(start, end).split('\n').length - 1;
+		position = end;
+	}
+	push(code.slice(position), true);
+
+	return { code: chunks.join(''), lines };
+}
+
+/**
+ * Returns the zero-based line an offset of code is on once edits are applied
+ * @param code - The code the edits apply to
+ * @param edits - Edits that don't overlap, in any order
+ * @param offset - An offset of the code that no edit replaces
+ */
+function getEditedLine(code: string, edits: TextEdit[], offset: number): number {
+	const countLines = (text: string) => text.split('\n').length - 1;
+	return edits
+		.filter((edit) => edit.end <= offset)
+		.reduce(
+			(line, edit) => line + countLines(edit.text) - countLines(code.slice(edit.start, edit.end)),
+			getLineColumn(code, offset).line
+		);
+}
+
+/**
+ * Applies text edits to code produced by a step of the conversion, keeping its mappings up to date
+ * @param result - The code and its mappings
+ * @param edits - Edits that don't overlap, in any order
+ * @returns The edited code and its mappings
+ */
+function editTransformResult({ code, mappings }: TransformResult, edits: TextEdit[]): TransformResult {
+	const edited = applyEdits(code, edits);
+	return { code: edited.code, mappings: mappings && remapGeneratedLines(mappings, edited.lines) };
+}
+
+/**
+ * Maps the generated lines of mappings through edits made to the generated code, so they describe the edited code.
+ * Columns are kept as they are, so mappings are line-accurate on lines whose columns the edits shifted.
+ * @param mappings - Mappings for the code before editing
+ * @param lines - The input line each edited line starts in, as returned by applyEdits
+ */
+function remapGeneratedLines(mappings: SourceMapMappings, lines: (number | undefined)[]): SourceMapMappings {
+	return lines.map((line) => {
+		const segments = line === undefined ? [] : (mappings[line] ?? []);
+		// As columns may have shifted, the start of the line is mapped too, so every column maps to its source line
+		const [first] = segments;
+		return first?.length === 4 && first[0] > 0 ? [[0, 0, first[2], first[3]], ...segments] : segments;
+	});
+}
+
+/**
+ * Drops the names of mappings, as the mappings of each step are combined into one source map without names
+ * @param mappings - Mappings whose segments can have a name
+ */
+function withoutNames(mappings: SourceMapMappings): SourceMapMappings {
+	return mappings.map((segments) => segments.map((segment) => segment.slice(0, 4) as SourceMapSegment));
+}
+
+/**
+ * Maps the source lines of mappings through edits made to the source before it was parsed, so they
+ * refer to the source as written. Segments that point into inserted text are dropped.
+ * @param mappings - Mappings whose sources are the edited code
+ * @param lines - The original line each edited line starts in, as returned by applyEdits
+ */
+function remapSourceLines(mappings: SourceMapMappings, lines: (number | undefined)[]): SourceMapMappings {
+	return mappings.map((segments) =>
+		segments.flatMap((segment) => {
+			const line = segment.length >= 4 ? lines[segment[2]!] : undefined;
+			return line === undefined ? [] : [[segment[0], 0, line, segment[3]!] as SourceMapSegment];
+		})
+	);
+}
+
+/**
+ * Moves the source positions of mappings, as when a script's mappings are placed within a component file
+ * @param mappings - The mappings
+ * @param line - Zero-based line the source starts at
+ * @param column - Column the first line of the source starts at
+ */
+function offsetSourcePositions(mappings: SourceMapMappings, line: number, column: number): SourceMapMappings {
+	return mappings.map((segments) =>
+		segments.flatMap((segment) => {
+			if (segment.length < 4) return [];
+			const sourceColumn = segment[2] === 0 ? segment[3]! + column : segment[3]!;
+			return [[segment[0], 0, segment[2]! + line, sourceColumn] as SourceMapSegment];
+		})
+	);
+}
+
+/**
+ * Returns mappings that map each line of code to the start of the same line of its source
+ * @param code - The code
+ */
+function getIdentityMappings(code: string): SourceMapMappings {
+	return code.split('\n').map((_, line) => [[0, 0, line, 0]]);
+}
+
+/**
+ * Returns the zero-based line and column of an offset in code
+ * @param code - The code
+ * @param offset - The offset
+ */
+function getLineColumn(code: string, offset: number): { line: number; column: number } {
+	const lines = code.slice(0, offset).split('\n');
+	return { line: lines.length - 1, column: lines[lines.length - 1].length };
+}
+
+/**
+ * Collapses runs of blank lines into a single blank line and removes blank lines at the start of the code
+ * @param result - The code and its mappings
+ * @returns The collapsed code and its mappings
+ */
+function collapseBlankLines(result: TransformResult): TransformResult {
+	const { code } = result;
+	const edits: TextEdit[] = [];
+	const leading = code.match(/^\s*\n/);
+	if (leading) {
+		edits.push({ start: 0, end: leading[0].length, text: '' });
+	}
+	for (const match of code.matchAll(/\n{3,}/g)) {
+		if (match.index! >= (leading?.[0].length ?? 0)) {
+			edits.push({ start: match.index!, end: match.index! + match[0].length, text: '\n\n' });
+		}
+	}
+
+	return editTransformResult(result, edits);
+}
+
+/**
+ * Creates the source map for a converted file
+ * @param mappings - The decoded mappings
+ * @param source - The path of the source, relative to the map
+ * @param sourceContent - The content of the source
+ * @param file - The name of the generated file
+ */
+function createSourceMap(mappings: SourceMapMappings, source: string, sourceContent: string, file?: string): SourceMap {
+	return { version: 3, file, sources: [source], sourcesContent: [sourceContent], names: [], mappings: encode(mappings) };
+}
+
+/**
+ * Creates the source map for converted code and adds a `sourceMappingURL` comment pointing to it
+ * @param result - The converted code and its mappings
+ * @param source - The path of the source, relative to the map
+ * @param sourceContent - The content of the source
+ * @param file - The name of the generated file
+ * @param getURL - Function returning the URL of the map
+ * @returns The code with the comment added, and the source map
+ */
+function attachSourceMap(
+	result: TransformResult,
+	source: string,
+	sourceContent: string,
+	file: string | undefined,
+	getURL: (map: SourceMap) => string
+): { code: string; map: SourceMap } {
+	// The comment moves the lines after it in components, so the map is created for the code with it added
+	const { mappings } = addSourceMappingURL(result, '');
+	const map = createSourceMap(mappings!, source, sourceContent, file);
+	return { code: addSourceMappingURL(result, getURL(map)).code, map };
+}
+
+/**
+ * Returns a source map as a data URL, for inline source maps
+ * @param map - The source map
+ */
+function toDataURL(map: SourceMap): string {
+	return `data:application/json;charset=utf-8;base64,${Buffer.from(JSON.stringify(map)).toString('base64')}`;
+}
+
+/**
+ * Adds a `sourceMappingURL` comment to converted code. In Vue and Svelte components the comment is added at
+ * the end of the last `<script>` block, as it is a JavaScript comment.
+ * @param code - The converted code
+ * @param url - The URL of the source map
+ * @returns The code with the comment added, and the mappings adjusted for it
+ */
+function addSourceMappingURL(result: TransformResult, url: string): TransformResult {
+	const { code } = result;
+	const comment = `//# sourceMappingURL=${url}`;
+	const scriptEnd = code.lastIndexOf('</script>');
+	if (scriptEnd !== -1) {
+		return editTransformResult(result, [{ start: scriptEnd, end: scriptEnd, text: `${comment}\n` }]);
+	}
+	const text = `${code.endsWith('\n') ? '' : '\n'}${comment}`;
+	return editTransformResult(result, [{ start: code.length, end: code.length, text }]);
+}
+
+/**
+ * Evaluates an enum member initializer at compile time, the same way TypeScript does for
+ * constant enum members
+ * @param node - The initializer expression
+ * @param enumName - The name of the enum the member belongs to
+ * @param enums - Values of every enum evaluated so far, keyed by enum name then member name
+ * @returns The constant value, or undefined if the initializer is not a constant expression
+ */
+function evaluateEnumInitializer(
+	node: t.Node,
+	enumName: string,
+	enums: Map<string, Map<string, string | number>>
+): string | number | undefined {
+	const evaluate = (node: t.Node) => evaluateEnumInitializer(node, enumName, enums);
+
+	if (t.isNumericLiteral(node) || t.isStringLiteral(node)) {
+		return node.value;
+	}
+	if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+		return node.quasis[0].value.cooked ?? undefined;
+	}
+	if (t.isParenthesizedExpression(node) || t.isTSAsExpression(node) || t.isTSNonNullExpression(node)) {
+		return evaluate(node.expression);
+	}
+	if (t.isIdentifier(node)) {
+		// A bare identifier refers to an earlier member of the same enum
+		return enums.get(enumName)?.get(node.name);
+	}
+	if (t.isMemberExpression(node) && t.isIdentifier(node.object)) {
+		const memberName = getStaticPropertyName(node);
+		return memberName === undefined ? undefined : enums.get(node.object.name)?.get(memberName);
+	}
+	if (t.isUnaryExpression(node)) {
+		const value = evaluate(node.argument);
+		if (typeof value !== 'number') return undefined;
+		switch (node.operator) {
+			case '-':
+				return -value;
+			case '+':
+				return value;
+			case '~':
+				return ~value;
+		}
+		return undefined;
+	}
+	if (t.isBinaryExpression(node) && t.isExpression(node.left)) {
+		const left = evaluate(node.left);
+		const right = evaluate(node.right);
+		if (left === undefined || right === undefined) return undefined;
+		if (node.operator === '+') {
+			return (left as any) + (right as any);
+		}
+		if (typeof left !== 'number' || typeof right !== 'number') return undefined;
+		switch (node.operator) {
+			case '-':
+				return left - right;
+			case '*':
+				return left * right;
+			case '/':
+				return left / right;
+			case '%':
+				return left % right;
+			case '**':
+				return left ** right;
+			case '|':
+				return left | right;
+			case '&':
+				return left & right;
+			case '^':
+				return left ^ right;
+			case '<<':
+				return left << right;
+			case '>>':
+				return left >> right;
+			case '>>>':
+				return left >>> right;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns the name of a member expression's property when it is known statically,
+ * as in `Color.Red` or `Color['Red']`
+ * @param node - The member expression
+ * @returns The property name, or undefined for dynamic property access
+ */
+function getStaticPropertyName(node: t.MemberExpression): string | undefined {
+	if (!node.computed && t.isIdentifier(node.property)) {
+		return node.property.name;
+	}
+	if (node.computed && t.isStringLiteral(node.property)) {
+		return node.property.value;
+	}
+	return undefined;
+}
+
+/**
+ * Computes the value of every member of an enum declaration, following TypeScript's
+ * auto-increment rules for members without an initializer
+ * @param node - The enum declaration
+ * @param enums - Values of every enum evaluated so far; the result is also recorded here
+ * @returns The member values, with undefined for members that are not constant
+ */
+function evaluateEnumMembers(
+	node: t.TSEnumDeclaration,
+	enums: Map<string, Map<string, string | number>>
+): (string | number | undefined)[] {
+	const enumName = node.id.name;
+	const members = new Map<string, string | number>();
+	enums.set(enumName, members);
+
+	let previous: string | number | undefined = -1;
+	return node.members.map((member) => {
+		let value: string | number | undefined;
+		if (member.initializer) {
+			value = evaluateEnumInitializer(member.initializer, enumName, enums);
+		} else if (typeof previous === 'number') {
+			value = previous + 1;
+		}
+		const memberName = t.isIdentifier(member.id) ? member.id.name : member.id.value;
+		if (value !== undefined) members.set(memberName, value);
+		previous = value;
+		return value;
+	});
+}
+
+/**
+ * Creates a literal node for a constant enum value
+ * @param value - The constant value
+ * @param quote - The quote character to use for strings
+ * @returns A string, numeric or negated numeric literal
+ */
+function createEnumValueLiteral(value: string | number, quote: string): t.Expression {
+	if (typeof value === 'string') {
+		const literal = t.stringLiteral(value);
+		// Match the quote style of the surrounding file rather than the generator default
+		const escaped = JSON.stringify(value).slice(1, -1).replace(/\\"/g, '"').replaceAll(quote, `\\${quote}`);
+		literal.extra = { rawValue: value, raw: `${quote}${escaped}${quote}` };
+		return literal;
+	}
+	if (value < 0 || Object.is(value, -0)) {
+		return t.unaryExpression('-', t.numericLiteral(-value));
+	}
+	return t.numericLiteral(value);
+}
+
+/**
+ * Returns the name of an enum member, which is written as an identifier or a string
+ * @param member - The enum member
+ */
+function getEnumMemberName(member: t.TSEnumMember): string {
+	return t.isIdentifier(member.id) ? member.id.name : member.id.value;
+}
+
+/**
+ * Creates the value of an enum member from its evaluated value, keeping literal initializers as written
+ * @param member - The enum member
+ * @param value - The evaluated value, which must be known
+ * @param quote - The quote character to use for strings
+ * @returns The value expression
+ */
+function createEnumMemberValue(member: t.TSEnumMember, value: string | number, quote: string): t.Expression {
+	if (member.initializer && !t.isIdentifier(member.initializer) && !hasIdentifierReference(member.initializer)) {
+		// Keep literal and self-contained expressions like `1 << 2` as written
+		return member.initializer;
+	}
+	const valueNode = createEnumValueLiteral(value, quote);
+	// The initializer references other members, which an object literal can't do,
+	// so write the computed value and keep the original expression as a comment
+	const description = member.initializer && describeInitializer(member.initializer);
+	if (description) {
+		t.addComment(valueNode, 'trailing', ` ${description} `, false);
+	}
+	return valueNode;
+}
+
+/**
+ * Replaces the references to members of an enum in an initializer with property accesses on the enum,
+ * as in `A + 1` becoming `E.A + 1`
+ * @param node - The initializer
+ * @param enumName - The enum name
+ * @param memberNames - The names of the enum members
+ * @returns The rewritten copy of the initializer
+ */
+function qualifyEnumMemberReferences(node: t.Expression, enumName: string, memberNames: Set<string>): t.Expression {
+	const toMember = (name: string) => t.memberExpression(t.identifier(enumName), t.identifier(name));
+	if (t.isIdentifier(node)) {
+		return memberNames.has(node.name) ? toMember(node.name) : node;
+	}
+
+	const expression = t.cloneNode(node, true);
+	t.traverse(expression, (child, ancestors) => {
+		if (!t.isIdentifier(child) || !memberNames.has(child.name)) return;
+		const { node: parent, key, index } = ancestors[ancestors.length - 1];
+		if (!t.isReferenced(child, parent, ancestors[ancestors.length - 2]?.node)) return;
+		if (index === undefined) {
+			(parent as any)[key] = toMember(child.name);
+		} else {
+			(parent as any)[key][index] = toMember(child.name);
+		}
+	});
+	return expression;
+}
+
+/**
+ * Converts an enum with members whose value isn't known until it runs, like `A = 'abc'.length`, into the
+ * IIFE that tsc emits, where members can refer to the members before them. Numeric and computed members
+ * get a reverse mapping.
+ *
+ * ```js
+ * var Sizes;(function (Sizes) {
+ *   Sizes[Sizes['Small'] = 'abc'.length] = 'Small';
+ *   Sizes[Sizes['Large'] = Sizes.Small * 2] = 'Large';
+ * })(Sizes || (Sizes = {}));
+ * ```
+ * @param node - The enum declaration
+ * @param values - The evaluated member values, which are undefined for computed members
+ * @param quote - The quote character to use for strings
+ * @returns The IIFE statement, which needs a binding for the enum to be declared before it
+ */
+function createEnumIIFE(
+	node: t.TSEnumDeclaration,
+	values: (string | number | undefined)[],
+	quote: string
+): t.ExpressionStatement {
+	const enumName = node.id.name;
+	const memberNames = new Set(node.members.map(getEnumMemberName));
+	const statements: t.Statement[] = [];
+
+	node.members.forEach((member, index) => {
+		const value = values[index];
+		const memberName = getEnumMemberName(member);
+		if (value === undefined && !member.initializer) {
+			throw new Error(
+				`Enum member ${enumName}.${memberName} must have an initializer, as it follows a computed member`
+			);
+		}
+		const valueNode =
+			value === undefined
+				? qualifyEnumMemberReferences(member.initializer!, enumName, memberNames)
+				: createEnumMemberValue(member, value, quote);
+		const target = t.memberExpression(t.identifier(enumName), createEnumValueLiteral(memberName, quote), true);
+		let assignment: t.Expression = t.assignmentExpression('=', target, valueNode);
+		if (typeof value !== 'string') {
+			assignment = t.assignmentExpression(
+				'=',
+				t.memberExpression(t.identifier(enumName), assignment, true),
+				createEnumValueLiteral(memberName, quote)
+			);
+		}
+		const statement = t.expressionStatement(assignment);
+		statement.loc = member.loc;
+		t.inheritsComments(statement, member);
+		statements.push(statement);
+	});
+
+	const block = t.blockStatement(statements);
+	block.loc = node.loc;
+	const argument = t.logicalExpression(
+		'||',
+		t.identifier(enumName),
+		t.assignmentExpression('=', t.identifier(enumName), t.objectExpression([]))
+	);
+	const iife = t.expressionStatement(
+		t.callExpression(t.functionExpression(null, [t.identifier(enumName)], block), [argument])
+	);
+	iife.loc = node.loc;
+	return iife;
+}
+
+/**
+ * Converts an enum declaration into a frozen object literal. Numeric members get a reverse
+ * mapping from value to name, written on the same line as the member so the output keeps
+ * the original line numbers and reads like the enum it came from.
+ *
+ * ```js
+ * const Direction = Object.freeze({
+ *   Up: 1, 1: 'Up',
+ *   Down: 2, 2: 'Down'
+ * });
+ * ```
+ * @param node - The enum declaration
+ * @param values - The evaluated member values
+ * @param quote - The quote character to use for strings
+ * @returns The replacement variable declaration
+ */
+function createEnumObject(
+	node: t.TSEnumDeclaration,
+	values: (string | number)[],
+	quote: string
+): t.VariableDeclaration {
+	const properties: t.ObjectProperty[] = [];
+
+	node.members.forEach((member, index) => {
+		const value = values[index];
+		const memberName = getEnumMemberName(member);
+		const key = t.isValidIdentifier(memberName) ? t.identifier(memberName) : t.stringLiteral(memberName);
+
+		const property = t.objectProperty(key, createEnumMemberValue(member, value, quote));
+		property.loc = member.loc;
+		t.inheritsComments(property, member);
+		properties.push(property);
+
+		if (typeof value === 'number') {
+			const reverseKey =
+				Number.isInteger(value) && value >= 0 ? t.numericLiteral(value) : createEnumValueLiteral(String(value), quote);
+			const reverse = t.objectProperty(reverseKey, createEnumValueLiteral(memberName, quote));
+			reverse.loc = member.loc;
+			properties.push(reverse);
+		}
+	});
+
+	const object = t.objectExpression(properties);
+	object.loc = node.loc;
+	const freeze = t.callExpression(t.memberExpression(t.identifier('Object'), t.identifier('freeze')), [object]);
+	const declaration = t.variableDeclaration('const', [t.variableDeclarator(t.identifier(node.id.name), freeze)]);
+	declaration.loc = node.loc;
+	t.inheritsComments(declaration, node);
+	return declaration;
+}
+
+/**
+ * Checks whether an expression references any identifier, as opposed to being built from literals only
+ * @param node - The expression to check
+ * @returns True if the expression contains an identifier reference
+ */
+function hasIdentifierReference(node: t.Node): boolean {
+	let found = false;
+	t.traverseFast(node, (child) => {
+		if (t.isIdentifier(child)) found = true;
+	});
+	return found;
+}
+
+/**
+ * Renders a short, readable form of an enum member initializer for use in a comment
+ * @param node - The initializer expression
+ * @returns The source-like text, or undefined if the initializer is too complex to describe
+ */
+function describeInitializer(node: t.Node): string | undefined {
+	if (t.isIdentifier(node)) return node.name;
+	if (t.isNumericLiteral(node)) return String(node.value);
+	if (t.isStringLiteral(node)) return JSON.stringify(node.value);
+	if (t.isParenthesizedExpression(node)) {
+		const inner = describeInitializer(node.expression);
+		return inner === undefined ? undefined : `(${inner})`;
+	}
+	if (t.isMemberExpression(node) && t.isIdentifier(node.object)) {
+		const memberName = getStaticPropertyName(node);
+		return memberName === undefined ? undefined : `${node.object.name}.${memberName}`;
+	}
+	if (t.isUnaryExpression(node)) {
+		const argument = describeInitializer(node.argument);
+		return argument === undefined ? undefined : `${node.operator}${argument}`;
+	}
+	if (t.isBinaryExpression(node)) {
+		const left = describeInitializer(node.left);
+		const right = describeInitializer(node.right);
+		return left === undefined || right === undefined ? undefined : `${left} ${node.operator} ${right}`;
+	}
+	return undefined;
+}
+
+/**
+ * Converts a TypeScript entity name like `A.B.C` into the equivalent member expression
+ * @param node - The entity name
+ * @returns The expression
+ */
+function tsEntityNameToExpression(node: t.TSEntityName): t.Expression {
+	if (t.isTSQualifiedName(node)) {
+		return t.memberExpression(tsEntityNameToExpression(node.left), node.right);
+	}
+	return node as t.Expression;
+}
+
+/**
+ * Removes TypeScript-only modifiers like `private`, `readonly` and `override` from a class member
+ * @param node - The class property or method
+ */
+function clearClassMemberModifiers(node: any): void {
+	node.accessibility = null;
+	node.readonly = false;
+	node.override = false;
+	node.optional = false;
+	node.definite = false;
+}
+
+/**
+ * Replaces constructor parameter properties like `constructor(private api: Api)` with plain
+ * parameters and assigns each one to `this`, after the `super()` call in derived classes.
+ * The assignments are kept on existing lines so the output keeps the original line numbers.
+ * @param path - The constructor method path
+ */
+function lowerParameterProperties(path: any): void {
+	const assignments: t.Statement[] = [];
+
+	path.node.params = path.node.params.map((param: t.Node) => {
+		if (!t.isTSParameterProperty(param)) return param;
+
+		const { parameter } = param;
+		const id = t.isAssignmentPattern(parameter) ? parameter.left : parameter;
+		if (!t.isIdentifier(id)) {
+			throw new Error('Parameter properties must be identifiers');
+		}
+		assignments.push(
+			t.expressionStatement(
+				t.assignmentExpression('=', t.memberExpression(t.thisExpression(), t.identifier(id.name)), t.identifier(id.name))
+			)
+		);
+		return parameter;
+	});
+
+	if (assignments.length === 0) return;
+
+	const superCall = path
+		.get('body.body')
+		.find(
+			(statement: any) =>
+				statement.isExpressionStatement() &&
+				statement.get('expression').isCallExpression() &&
+				statement.get('expression.callee').isSuper()
+		);
+	if (superCall) {
+		superCall.insertAfter(assignments);
+	} else {
+		path.get('body').unshiftContainer('body', assignments);
+	}
+}
+
+/**
+ * Checks whether a namespace has a runtime value, meaning it contains something other than
+ * types, ambient declarations and const enums
+ * @param node - The namespace declaration
+ * @returns True if the namespace needs to be emitted
+ */
+function isInstantiatedNamespace(node: t.TSModuleDeclaration): boolean {
+	if (node.declare) return false;
+	if (t.isTSModuleDeclaration(node.body)) return isInstantiatedNamespace(node.body);
+
+	return node.body.body.some((statement) => {
+		if (t.isExportNamedDeclaration(statement) && !statement.declaration) {
+			return statement.exportKind !== 'type';
+		}
+		const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration! : statement;
+		if (t.isTSModuleDeclaration(declaration)) return isInstantiatedNamespace(declaration);
+		if (t.isTSEnumDeclaration(declaration)) return !declaration.const && !declaration.declare;
+		if (t.isVariableDeclaration(declaration) || t.isClassDeclaration(declaration)) return !declaration.declare;
+		return !(
+			t.isTSInterfaceDeclaration(declaration) ||
+			t.isTSTypeAliasDeclaration(declaration) ||
+			t.isTSDeclareFunction(declaration)
+		);
+	});
+}
+
+/**
+ * Replaces every reference to an exported namespace variable with a property access on the
+ * namespace object, as in `x` becoming `Utils.x`
+ * @param blockPath - The namespace body path
+ * @param name - The exported variable name
+ * @param namespaceName - The namespace name
+ */
+function rewriteNamespaceExportReferences(blockPath: any, name: string, namespaceName: string): void {
+	const binding = blockPath.scope.getBinding(name);
+	if (!binding) return;
+
+	const toMember = () => t.memberExpression(t.identifier(namespaceName), t.identifier(name));
+
+	for (const reference of binding.referencePaths) {
+		if (reference.parentPath.isObjectProperty({ shorthand: true }) && reference.key === 'value') {
+			reference.parent.shorthand = false;
+		}
+		reference.replaceWith(toMember());
+	}
+	for (const violation of binding.constantViolations) {
+		const target = violation.isUpdateExpression() ? violation.get('argument') : violation.get('left');
+		if (!target?.node) continue;
+		const identifiers = target.isIdentifier() ? [target] : [target.getBindingIdentifierPaths()[name]].flat();
+		for (const identifier of identifiers) {
+			if (identifier?.isIdentifier({ name })) identifier.replaceWith(toMember());
+		}
+	}
+}
+
+/**
+ * Replaces references to the exports of earlier blocks of a merged namespace with property accesses
+ * on the namespace object, since they are only in scope in the IIFE that declared them
+ * @param blockPath - The namespace body path
+ * @param names - The names exported by the earlier blocks
+ * @param namespaceName - The namespace name
+ */
+function rewriteMergedNamespaceReferences(blockPath: any, names: Set<string>, namespaceName: string): void {
+	if (names.size === 0) return;
+	blockPath.traverse({
+		ReferencedIdentifier(path: any) {
+			const name: string = path.node.name;
+			if (!names.has(name) || !path.isIdentifier()) return;
+			// Types are stripped later, and names declared in this block shadow the earlier exports
+			if (path.findParent((parent: any) => parent.isTSType() || parent.isTSEntityName())) return;
+			const binding = path.scope.getBinding(name);
+			if (binding && binding.path.isDescendant(blockPath)) return;
+
+			if (path.parentPath.isObjectProperty({ shorthand: true }) && path.key === 'value') {
+				path.parent.shorthand = false;
+			}
+			path.replaceWith(t.memberExpression(t.identifier(namespaceName), t.identifier(name)));
+		},
+	});
+}
+
+/**
+ * Replaces the binding identifiers in a declaration pattern with property accesses on the namespace object
+ * @param pattern - The declarator id, such as `x` or `{ a, b: [c] }`
+ * @param namespaceName - The namespace name
+ * @returns The assignment target
+ */
+function toNamespaceAssignmentTarget(pattern: t.LVal, namespaceName: string): t.LVal {
+	const target = t.cloneNode(pattern, true);
+	const toMember = (identifier: t.Identifier) =>
+		t.memberExpression(t.identifier(namespaceName), t.identifier(identifier.name));
+
+	if (t.isIdentifier(target)) return toMember(target);
+
+	t.traverseFast(target, (node) => {
+		if (t.isObjectProperty(node) && t.isIdentifier(node.value)) {
+			node.shorthand = false;
+			node.value = toMember(node.value);
+		} else if (t.isArrayPattern(node)) {
+			node.elements = node.elements.map((element) => (t.isIdentifier(element) ? toMember(element) : element));
+		} else if (t.isAssignmentPattern(node) && t.isIdentifier(node.left)) {
+			node.left = toMember(node.left);
+		} else if (t.isRestElement(node) && t.isIdentifier(node.argument)) {
+			node.argument = toMember(node.argument);
+		}
+	});
+	return target;
+}
+
+/**
+ * Creates the statement `Namespace.name = name;` that exports a declaration from a namespace
+ * @param namespaceName - The namespace name
+ * @param name - The exported name
+ * @returns The assignment statement
+ */
+function createNamespaceExport(namespaceName: string, name: string): t.ExpressionStatement {
+	return t.expressionStatement(
+		t.assignmentExpression('=', t.memberExpression(t.identifier(namespaceName), t.identifier(name)), t.identifier(name))
+	);
+}
+
+/**
+ * The names exported by the blocks of a namespace lowered so far, each with the exports of its own
+ * blocks for nested namespaces
+ */
+type NamespaceExports = Map<string, NamespaceExports>;
+
+/**
+ * Converts the body of a namespace into the statements of its IIFE. Exported functions, classes
+ * and enums are assigned to the namespace object after their declaration, and exported
+ * variables are stored on the namespace object directly.
+ * @param blockPath - The namespace body path
+ * @param namespaceName - The namespace name
+ * @param exports - The exports of earlier blocks of a merged namespace, which the exports of this block are added to
+ * @returns The statements for the IIFE body
+ */
+function lowerNamespaceBody(blockPath: any, namespaceName: string, exports: NamespaceExports): t.Statement[] {
+	const statements: t.Statement[] = [];
+	const declaredNamespaces = new Set<string>();
+	rewriteMergedNamespaceReferences(blockPath, new Set(exports.keys()), namespaceName);
+
+	for (const statementPath of blockPath.get('body')) {
+		const statement: t.Statement = statementPath.node;
+		if (!t.isExportNamedDeclaration(statement) || !statement.declaration) {
+			statements.push(statement);
+			continue;
+		}
+
+		const declaration = statement.declaration;
+		if (t.isVariableDeclaration(declaration)) {
+			if (declaration.declare) continue;
+			for (const declarator of declaration.declarations) {
+				for (const name of Object.keys(t.getBindingIdentifiers(declarator.id))) {
+					rewriteNamespaceExportReferences(blockPath, name, namespaceName);
+					exports.set(name, exports.get(name) ?? new Map());
+				}
+				// Exported variables without an initializer are never assigned, as in tsc
+				if (!declarator.init) continue;
+				const assignment = t.expressionStatement(
+					t.assignmentExpression('=', toNamespaceAssignmentTarget(declarator.id, namespaceName), declarator.init)
+				);
+				assignment.loc = declarator.loc;
+				statements.push(assignment);
+			}
+			t.inheritsComments(statements[statements.length - 1] ?? declaration, statement);
+		} else if (t.isTSModuleDeclaration(declaration)) {
+			if (!isInstantiatedNamespace(declaration) || !t.isIdentifier(declaration.id)) continue;
+			const name = declaration.id.name;
+			if (!declaredNamespaces.has(name)) {
+				declaredNamespaces.add(name);
+				const binding = t.variableDeclaration('let', [t.variableDeclarator(t.identifier(name))]);
+				binding.loc = statement.loc;
+				statements.push(binding);
+			}
+			// Nested namespaces are stored on the parent: `(Inner = Outer.Inner || (Outer.Inner = {}))`
+			const member = t.memberExpression(t.identifier(namespaceName), t.identifier(name));
+			const argument = t.assignmentExpression(
+				'=',
+				t.identifier(name),
+				t.logicalExpression('||', member, t.assignmentExpression('=', t.cloneNode(member), t.objectExpression([])))
+			);
+			const members = exports.get(name) ?? new Map();
+			exports.set(name, members);
+			statements.push(createNamespaceIIFE(statementPath.get('declaration'), argument, members));
+		} else if (
+			t.isFunctionDeclaration(declaration) ||
+			t.isClassDeclaration(declaration) ||
+			(t.isTSEnumDeclaration(declaration) && !declaration.const)
+		) {
+			if ('declare' in declaration && declaration.declare) continue;
+			t.inheritsComments(declaration, statement);
+			statements.push(declaration);
+			statements.push(createNamespaceExport(namespaceName, declaration.id!.name));
+			exports.set(declaration.id!.name, exports.get(declaration.id!.name) ?? new Map());
+		} else {
+			// Types and const enums have no value to export, and are stripped by the visitor
+			statements.push(declaration);
+		}
+	}
+
+	return statements;
+}
+
+/**
+ * Creates the IIFE that tsc emits for a namespace:
+ *
+ * ```js
+ * (function (Utils) {
+ *   Utils.x = 1;
+ * })(Utils || (Utils = {}));
+ * ```
+ * @param path - The namespace declaration path
+ * @param argument - The namespace object passed to the IIFE
+ * @param exports - The exports of earlier blocks of the namespace, which the exports of this block are added to
+ * @returns The IIFE statement
+ */
+function createNamespaceIIFE(path: any, argument: t.Expression, exports: NamespaceExports): t.ExpressionStatement {
+	const name: string = path.node.id.name;
+	let body: t.Statement[];
+
+	if (t.isTSModuleDeclaration(path.node.body)) {
+		// A dotted name like `namespace A.B {}` is a namespace nested in another
+		const innerName: string = path.node.body.id.name;
+		const members = exports.get(innerName) ?? new Map();
+		exports.set(innerName, members);
+		const member = t.memberExpression(t.identifier(name), t.identifier(innerName));
+		body = [
+			t.variableDeclaration('let', [t.variableDeclarator(t.identifier(innerName))]),
+			createNamespaceIIFE(
+				path.get('body'),
+				t.assignmentExpression(
+					'=',
+					t.identifier(innerName),
+					t.logicalExpression('||', member, t.assignmentExpression('=', t.cloneNode(member), t.objectExpression([])))
+				),
+				members
+			),
+		];
+	} else {
+		body = lowerNamespaceBody(path.get('body'), name, exports);
+	}
+
+	const block = t.blockStatement(body);
+	block.loc = path.node.body.loc;
+	const iife = t.expressionStatement(
+		t.callExpression(t.functionExpression(null, [t.identifier(name)], block), [argument])
+	);
+	iife.loc = path.node.loc;
+	return iife;
+}
+
+/**
+ * Extensions of the files written for each TypeScript extension
+ */
+const OUTPUT_EXTENSIONS: Record<string, string> = { '.ts': '.js', '.tsx': '.jsx', '.mts': '.mjs', '.cts': '.cjs' };
+
+/**
+ * TypeScript extensions a JavaScript import specifier can refer to, as TypeScript resolves
+ * `./Button.js` to `./Button.tsx` when no `./Button.js` exists
+ */
+const SOURCE_EXTENSIONS: Record<string, string[]> = {
+	'.js': ['.ts', '.tsx'],
+	'.jsx': ['.tsx'],
+	'.mjs': ['.mts'],
+	'.cjs': ['.cts'],
+};
+
+/**
+ * Extensions tried, in order, when resolving an extensionless import specifier
+ */
+const RESOLVED_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Returns the extension a file is written with once its TypeScript is stripped.
+ * @param ext - The source file extension, including the dot
+ * @returns The output extension
+ */
+function getOutputExtension(ext: string): string {
+	return OUTPUT_EXTENSIONS[ext] ?? ext;
+}
+
+/**
+ * Returns whether a file exists at a path
+ * @param filePath - The path to check
+ */
+function isFile(filePath: string): boolean {
+	return statSync(filePath, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+/**
+ * Creates a function that rewrites relative import specifiers to the extensions their files are written with.
+ * With a filename, specifiers are resolved against the files next to it, so `./Button.js` becomes `./Button.jsx`
+ * when it refers to `Button.tsx`. With `'explicit'`, extensionless specifiers also get the extension of the
+ * file they resolve to, or `.js` when it can't be found.
+ * @param mode - How specifiers are rewritten
+ * @param filename - Path to the file containing the imports
+ * @returns The function mapping a specifier to its rewritten form
+ */
+function createImportResolver(mode: 'rewrite' | 'explicit', filename?: string): (specifier: string) => string {
+	return (specifier) => {
+		if (!/^\.\.?(\/|$)/.test(specifier) || /[?#]/.test(specifier)) {
+			return specifier;
+		}
+
+		const ext = path.posix.extname(specifier);
+		const base = specifier.slice(0, specifier.length - ext.length);
+		if (OUTPUT_EXTENSIONS[ext]) {
+			// Declaration files have no output of their own
+			return base.endsWith('.d') ? specifier : base + getOutputExtension(ext);
+		}
+
+		if (!filename) {
+			return mode === 'explicit' && ext === '' ? `${specifier}.js` : specifier;
+		}
+
+		const target = path.resolve(path.dirname(filename), specifier);
+		if (SOURCE_EXTENSIONS[ext] && !isFile(target)) {
+			const targetBase = target.slice(0, target.length - ext.length);
+			const sourceExt = SOURCE_EXTENSIONS[ext].find((candidate) => isFile(targetBase + candidate));
+			return sourceExt ? base + getOutputExtension(sourceExt) : specifier;
+		}
+
+		if (mode === 'explicit' && !isFile(target) && !SOURCE_EXTENSIONS[ext]) {
+			const fileExt = RESOLVED_EXTENSIONS.find((candidate) => isFile(target + candidate));
+			if (fileExt) {
+				return specifier + getOutputExtension(fileExt);
+			}
+			const indexExt = RESOLVED_EXTENSIONS.find((candidate) => isFile(path.join(target, `index${candidate}`)));
+			if (indexExt) {
+				return `${specifier.replace(/\/$/, '')}/index${getOutputExtension(indexExt)}`;
+			}
+		}
+		return specifier;
+	};
+}
+
+/**
+ * Sets the value of a string literal, keeping the quotes it was written with.
+ * @param node - The string literal
+ * @param value - The new value
+ */
+function setStringLiteralValue(node: t.StringLiteral, value: string): void {
+	if (node.value === value) return;
+	const quote = (node.extra?.raw as string | undefined)?.[0] ?? "'";
+	node.value = value;
+	node.extra = { raw: `${quote}${value}${quote}`, rawValue: value };
+}
+
+/**
+ * Creates a visitor that calls visit with the string literal naming the module of each import and
+ * export declaration, dynamic `import()` and `require()` call.
+ * @param visit - Function called with each module specifier
+ * @returns The visitor to pass to Babel traverse
+ */
+function createModuleSpecifierVisitor(visit: (node: t.StringLiteral) => void): Record<string, any> {
+	return {
+		'ImportDeclaration|ExportNamedDeclaration|ExportAllDeclaration'(path: any) {
+			if (path.node.source) visit(path.node.source);
+		},
+		CallExpression(path: any) {
+			const { callee, arguments: args } = path.node;
+			const isImport =
+				t.isImport(callee) || (t.isIdentifier(callee, { name: 'require' }) && !path.scope.hasBinding('require'));
+			if (isImport && t.isStringLiteral(args[0])) {
+				visit(args[0]);
+			}
+		},
+	};
+}
+
+/**
+ * Returns the edits that rewrite the module specifiers of JavaScript code, leaving the rest of the code untouched.
+ * @param code - The JavaScript code
+ * @param resolveImport - Function mapping a specifier to its rewritten form
+ * @returns The edits replacing each rewritten specifier
+ */
+async function getModuleSpecifierEdits(
+	code: string,
+	resolveImport: (specifier: string) => string
+): Promise<TextEdit[]> {
+	const { traverse } = await loadBabel();
+	const ast = babelParse(code, { sourceType: 'module' });
+
+	const edits: TextEdit[] = [];
+	traverse(
+		ast,
+		createModuleSpecifierVisitor((node) => {
+			const raw = node.extra?.raw as string;
+			const value = resolveImport(node.value);
+			if (value !== node.value) {
+				edits.push({ start: node.start!, end: node.end!, text: `${raw[0]}${value}${raw[0]}` });
+			}
+		})
+	);
+	return edits;
+}
+
+/**
+ * Options for stripping TypeScript from a single script
+ */
+interface StripScriptOptions {
+	/** Whether the script may contain JSX */
+	jsx?: boolean;
+	/** Whether the script may return at the top level, as Astro frontmatter can */
+	topLevelReturn?: boolean;
+	/** Names referenced outside the script, as by the template of a Vue or Svelte component, which keep imports */
+	templateReferences?: Set<string>;
+	/** Keep imports and exports as written, except for those marked with `type` */
+	verbatimModuleSyntax?: boolean;
+	/** Whether imports that are only used as types are removed or kept as side-effect imports */
+	importsNotUsedAsValues?: 'remove' | 'preserve';
+	/** Keep decorators as TC39 decorators, or lower them as legacy `experimentalDecorators` */
+	decorators?: 'preserve' | 'legacy';
+	/** Function mapping each module specifier to the one the output should use */
+	resolveImport?: (specifier: string) => string;
+	/** Keep removed types as JSDoc comments */
+	jsdoc?: boolean;
+	/** Whether the script is a Vue `<script setup>` block, whose type-based macros become runtime declarations */
+	vueScriptSetup?: boolean;
+	/** Whether to generate source map mappings */
+	sourceMaps?: boolean;
+}
+
+/**
+ * Returns the leftmost identifier of an entity name, as in `React` for `React.FC`
+ * @param node - The entity name or expression
+ * @returns The identifier name, or undefined if there is none
+ */
+function getRootIdentifierName(node: t.Node): string | undefined {
+	if (t.isIdentifier(node)) return node.name;
+	if (t.isTSQualifiedName(node)) return getRootIdentifierName(node.left);
+	if (t.isMemberExpression(node)) return getRootIdentifierName(node.object);
+	return undefined;
+}
+
+/**
+ * Collects the names referenced in type positions, such as `Props` in `let props: Props`
+ * @param programPath - The program path
+ * @returns The referenced names
+ */
+function collectTypeReferences(programPath: any): Set<string> {
+	const typeReferences = new Set<string>();
+	programPath.traverse({
+		'TSTypeReference|TSTypeQuery|TSExpressionWithTypeArguments'(path: any) {
+			const name = getRootIdentifierName(path.node.typeName ?? path.node.exprName ?? path.node.expression);
+			if (name) typeReferences.add(name);
+		},
+	});
+	return typeReferences;
+}
+
+/**
+ * Returns whether an import specifier is removed because it only imports a type, either by being
+ * marked with `type` or, like tsc, by only being referenced in type positions
+ * @param programPath - The program path
+ * @param statement - The import declaration
+ * @param specifier - The import specifier
+ * @param typeReferences - Names referenced in type positions
+ * @param options - Module syntax options
+ */
+function isTypeOnlyImport(
+	programPath: any,
+	statement: t.ImportDeclaration,
+	specifier: t.ImportDeclaration['specifiers'][number],
+	typeReferences: Set<string>,
+	options: StripScriptOptions
+): boolean {
+	if (statement.importKind === 'type' || statement.importKind === 'typeof') return true;
+	if (t.isImportSpecifier(specifier) && specifier.importKind === 'type') return true;
+
+	// Imports are kept verbatim, or are used by a template the script can't see
+	if (options.verbatimModuleSyntax || options.templateReferences?.has(specifier.local.name)) return false;
+	const binding = programPath.scope.getBinding(specifier.local.name);
+	return !!binding && !binding.referenced && typeReferences.has(specifier.local.name);
+}
+
+/**
+ * Removes imports and exports that only exist in the type system: `import type`, `export type`,
+ * inline `type` specifiers, re-exports of types, and imports that are only referenced in type
+ * positions. Side-effect imports are kept, and with `verbatimModuleSyntax` or
+ * `importsNotUsedAsValues: 'preserve'` an import whose bindings are all removed is kept as
+ * `import 'module'` so its side effects still run.
+ * @param programPath - The program path
+ * @param options - Module syntax options
+ */
+function elideTypeOnlyModuleSyntax(programPath: any, options: StripScriptOptions): void {
+	const { verbatimModuleSyntax = false, importsNotUsedAsValues = 'remove' } = options;
+	const preserveSideEffects = verbatimModuleSyntax || importsNotUsedAsValues === 'preserve';
+
+	const typeReferences = collectTypeReferences(programPath);
+
+	// Names that only exist as types: type imports, interfaces, type aliases and ambient declarations
+	const typeOnlyNames = new Set<string>();
+	const valueNames = new Set<string>();
+	for (const [name, binding] of Object.entries<any>(programPath.scope.bindings)) {
+		const isTypeImport =
+			binding.kind === 'module' &&
+			(binding.path.parent.importKind === 'type' || binding.path.node.importKind === 'type');
+		if (!isTypeImport && binding.kind !== 'unknown') valueNames.add(name);
+	}
+
+	const removeOrKeepSideEffect = (statementPath: any, source: t.StringLiteral | null | undefined) => {
+		if (source && preserveSideEffects) {
+			const sideEffectImport = t.importDeclaration([], source);
+			sideEffectImport.loc = statementPath.node.loc;
+			statementPath.replaceWith(sideEffectImport);
+		} else {
+			statementPath.remove();
+		}
+	};
+
+	for (const statementPath of programPath.get('body')) {
+		const statement = statementPath.node;
+		const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+
+		if (
+			t.isTSInterfaceDeclaration(declaration) ||
+			t.isTSTypeAliasDeclaration(declaration) ||
+			(t.isTSModuleDeclaration(declaration) && t.isIdentifier(declaration.id) && !isInstantiatedNamespace(declaration))
+		) {
+			typeOnlyNames.add((declaration.id as t.Identifier).name);
+		}
+
+		if (!t.isImportDeclaration(statement) || statement.specifiers.length === 0) continue;
+
+		// `import type { A } from 'a'` never has side effects, so it is always removed entirely
+		if (statement.importKind === 'type' || statement.importKind === 'typeof') {
+			statement.specifiers.forEach((specifier) => typeOnlyNames.add(specifier.local.name));
+			statementPath.remove();
+			continue;
+		}
+
+		const kept = statement.specifiers.filter((specifier) => {
+			if (isTypeOnlyImport(programPath, statement, specifier, typeReferences, options)) {
+				typeOnlyNames.add(specifier.local.name);
+				return false;
+			}
+			return true;
+		});
+
+		if (kept.length === statement.specifiers.length) continue;
+		if (kept.length > 0) {
+			statement.specifiers = kept;
+		} else {
+			removeOrKeepSideEffect(statementPath, statement.source);
+		}
+	}
+
+	const isTypeOnlyName = (name: string) => typeOnlyNames.has(name) && !valueNames.has(name);
+
+	for (const statementPath of programPath.get('body')) {
+		const statement = statementPath.node;
+
+		if (t.isExportAllDeclaration(statement) && statement.exportKind === 'type') {
+			// `export type * from './types'`
+			statementPath.remove();
+		} else if (t.isExportDefaultDeclaration(statement)) {
+			if (t.isIdentifier(statement.declaration) && isTypeOnlyName(statement.declaration.name)) {
+				statementPath.remove();
+			}
+		} else if (t.isExportNamedDeclaration(statement) && !statement.declaration) {
+			if (statement.exportKind === 'type') {
+				// `export type { A } from './a'` and `export type { A }`
+				statementPath.remove();
+				continue;
+			}
+			if (statement.specifiers.length === 0) continue;
+
+			const kept = statement.specifiers.filter((specifier) => {
+				if (!t.isExportSpecifier(specifier)) return true;
+				if (specifier.exportKind === 'type') return false;
+				// Local re-exports of types, as in `export { Props }`
+				return statement.source || !isTypeOnlyName(specifier.local.name);
+			});
+
+			if (kept.length === statement.specifiers.length) continue;
+			if (kept.length > 0) {
+				statement.specifiers = kept;
+			} else {
+				removeOrKeepSideEffect(statementPath, statement.source);
+			}
+		}
+	}
+}
+
+/**
+ * A JSDoc tag, such as `@param {string} [label]`
+ */
+interface JSDocTag {
+	tag: string;
+	type?: string;
+	name?: string;
+	description?: string;
+}
+
+/**
+ * Formats a JSDoc tag as it appears in a comment
+ * @param tag - The tag
+ * @returns The tag text
+ */
+function formatJSDocTag({ tag, type, name, description }: JSDocTag): string {
+	return [`@${tag}`, type && `{${type}}`, name, description && `- ${description}`].filter(Boolean).join(' ');
+}
+
+/**
+ * Returns the name a JSDoc tag documents, without the brackets and default of an optional parameter
+ * @param name - The name as written in the tag, such as `[size=1]`
+ */
+function getJSDocTagKey(name = ''): string {
+	return name.replace(/^\[/, '').replace(/\]$/, '').split('=')[0];
+}
+
+/**
+ * Parses the tag at the start of a JSDoc comment line, reading the type up to its matching brace
+ * @param line - The comment line, without its leading `*`
+ * @returns The tag, or undefined if the line doesn't start with one
+ */
+function parseJSDocTag(line: string): JSDocTag | undefined {
+	const match = line.match(/^@(\w+)\s*/);
+	if (!match) return undefined;
+
+	let rest = line.slice(match[0].length);
+	let type: string | undefined;
+	if (rest.startsWith('{')) {
+		let depth = 0;
+		let end = 0;
+		while (end < rest.length) {
+			if (rest[end] === '{') depth++;
+			if (rest[end] === '}' && --depth === 0) break;
+			end++;
+		}
+		type = rest.slice(1, end);
+		rest = rest.slice(end + 1).trim();
+	}
+	return { tag: match[1], type, name: rest.split(/\s/)[0] || undefined };
+}
+
+/**
+ * Tag names that mean the same thing, mapped to the name used by this module
+ */
+const JSDOC_TAG_SYNONYMS: Record<string, string> = {
+	arg: 'param',
+	argument: 'param',
+	return: 'returns',
+	prop: 'property',
+};
+
+/**
+ * Adds tags to the lines of an existing JSDoc comment. Tags the comment already documents are left as
+ * written, except that a type is added to tags written without one, as in `@param label The label`.
+ * @param lines - The comment lines, without their leading `*`
+ * @param tags - The tags to add
+ * @returns The merged comment lines
+ */
+function mergeJSDocTags(lines: string[], tags: JSDocTag[]): string[] {
+	const merged = [...lines];
+	for (const tag of tags) {
+		const index = merged.findIndex((line) => {
+			const existing = parseJSDocTag(line);
+			if (!existing || (JSDOC_TAG_SYNONYMS[existing.tag] ?? existing.tag) !== tag.tag) return false;
+			// Tags like `@returns` and `@type` appear once, while `@param` and friends are matched by name
+			return !tag.name || tag.tag === 'typedef' || getJSDocTagKey(existing.name) === getJSDocTagKey(tag.name);
+		});
+
+		if (index === -1 && tag.tag === 'template') {
+			// Type parameters are documented before the tags that use them
+			const firstTag = merged.findIndex((line) => line.startsWith('@'));
+			merged.splice(firstTag === -1 ? merged.length : firstTag, 0, formatJSDocTag(tag));
+		} else if (index === -1) {
+			merged.push(formatJSDocTag(tag));
+		} else if (!parseJSDocTag(merged[index])!.type && tag.type) {
+			merged[index] = merged[index].replace(/^@\w+/, (name) => `${name} {${tag.type}}`);
+		}
+	}
+	return merged;
+}
+
+/**
+ * Returns the description of a JSDoc comment, up to its first tag and joined onto one line
+ * @param comments - The leading comments of a node
+ * @returns The description, or undefined if there is none
+ */
+function getJSDocDescription(comments: t.Comment[] | null | undefined): string | undefined {
+	const comment = comments?.at(-1);
+	if (comment?.type !== 'CommentBlock' || !comment.value.startsWith('*')) return undefined;
+
+	const lines = comment.value.slice(1).split('\n').map((line) => line.replace(/^\s*\*?\s?/, '').trim());
+	const tagIndex = lines.findIndex((line) => line.startsWith('@'));
+	return (tagIndex === -1 ? lines : lines.slice(0, tagIndex)).filter(Boolean).join(' ') || undefined;
+}
+
+/**
+ * Returns `@template` tags for the type parameters of a declaration, as in `@template {object} [T=Props]`
+ * @param typeParameters - The type parameters
+ * @param printType - Function printing a type
+ */
+function getTemplateTags(typeParameters: t.Node | null | undefined, printType: (node: t.Node) => string): JSDocTag[] {
+	if (!t.isTSTypeParameterDeclaration(typeParameters)) return [];
+	return typeParameters.params.map((param) => ({
+		tag: 'template',
+		type: param.constraint ? printType(param.constraint) : undefined,
+		name: param.default ? `[${param.name}=${printType(param.default)}]` : param.name,
+	}));
+}
+
+/**
+ * Returns the `@param` tag for a typed function parameter. Destructured parameters have no name, so
+ * they are named by position as `param0`, like tsc does.
+ * @param param - The parameter
+ * @param index - The position of the parameter
+ * @param printType - Function printing a type
+ * @returns The tag, or undefined if the parameter has no type
+ */
+function getParamTag(param: t.Node, index: number, printType: (node: t.Node) => string): JSDocTag | undefined {
+	const target: any = t.isTSParameterProperty(param) ? param.parameter : param;
+	const binding: any = t.isAssignmentPattern(target) ? target.left : target;
+	if (!t.isTSTypeAnnotation(binding.typeAnnotation)) return undefined;
+
+	let type = printType(binding.typeAnnotation.typeAnnotation);
+	let name = t.isIdentifier(binding) ? binding.name : `param${index}`;
+	if (t.isRestElement(binding)) {
+		const arrayType = binding.typeAnnotation.typeAnnotation;
+		if (!t.isTSArrayType(arrayType)) return undefined;
+		const elementType = printType(arrayType.elementType);
+		type = /[\s|&]/.test(elementType) && !elementType.startsWith('(') ? `...(${elementType})` : `...${elementType}`;
+		name = t.isIdentifier(binding.argument) ? binding.argument.name : name;
+	} else if (t.isAssignmentPattern(target)) {
+		const defaultValue = printType(target.right);
+		name = defaultValue.length <= 40 ? `[${name}=${defaultValue}]` : `[${name}]`;
+	} else if (binding.optional) {
+		name = `[${name}]`;
+	}
+	return { tag: 'param', type, name };
+}
+
+/**
+ * Returns the JSDoc tags documenting the types of a function's parameters, `this` and return value
+ * @param node - The function
+ * @param printType - Function printing a type
+ */
+function getFunctionTags(node: t.Function, printType: (node: t.Node) => string): JSDocTag[] {
+	const tags = getTemplateTags(node.typeParameters, printType);
+	node.params.forEach((param, index) => {
+		if (t.isIdentifier(param) && param.name === 'this') {
+			if (t.isTSTypeAnnotation(param.typeAnnotation)) {
+				tags.push({ tag: 'this', type: printType(param.typeAnnotation.typeAnnotation) });
+			}
+			return;
+		}
+		const tag = getParamTag(param, index, printType);
+		if (tag) tags.push(tag);
+	});
+	if (t.isTSTypeAnnotation(node.returnType)) {
+		tags.push({ tag: 'returns', type: printType(node.returnType.typeAnnotation) });
+	}
+	return tags;
+}
+
+/**
+ * Returns the `@typedef` tags for an interface. Interfaces with only named properties and methods
+ * become an `Object` typedef with `@property` tags, others a typedef of the equivalent object type.
+ * @param node - The interface
+ * @param printType - Function printing a type
+ */
+function getInterfaceTags(node: t.TSInterfaceDeclaration, printType: (node: t.Node) => string): JSDocTag[] {
+	const tags = getTemplateTags(node.typeParameters, printType);
+	const members = node.body.body;
+	const hasOnlyNamedMembers = members.every(
+		(member) =>
+			(t.isTSPropertySignature(member) || t.isTSMethodSignature(member)) &&
+			!member.computed &&
+			(t.isIdentifier(member.key) || t.isStringLiteral(member.key))
+	);
+
+	if (node.extends?.length || !hasOnlyNamedMembers) {
+		const types = [...(node.extends ?? []).map(printType), printType(node.body)];
+		return [...tags, { tag: 'typedef', type: types.join(' & '), name: node.id.name }];
+	}
+
+	tags.push({ tag: 'typedef', type: 'Object', name: node.id.name });
+	for (const member of members as (t.TSPropertySignature | t.TSMethodSignature)[]) {
+		const key = t.isIdentifier(member.key) ? member.key.name : (member.key as t.StringLiteral).value;
+		let type = member.typeAnnotation ? printType(member.typeAnnotation.typeAnnotation) : '*';
+		if (t.isTSMethodSignature(member)) {
+			type = printType(t.tsFunctionType(member.typeParameters, member.parameters, member.typeAnnotation));
+		}
+		tags.push({
+			tag: 'property',
+			type,
+			name: member.optional ? `[${key}]` : key,
+			description: getJSDocDescription(member.leadingComments),
+		});
+	}
+	return tags;
+}
+
+/**
+ * Returns the `@import` tag text that keeps the types of an import declaration in scope for
+ * JSDoc once it is removed, as in `@import { Props } from './types'`
+ * @param specifiers - The specifiers that only import types
+ * @param source - The raw module specifier, including quotes
+ */
+function getImportTag(specifiers: t.Node[], source: string): string {
+	const clauses: string[] = [];
+	const named: string[] = [];
+	for (const specifier of specifiers) {
+		if (t.isImportDefaultSpecifier(specifier)) {
+			clauses.unshift(specifier.local.name);
+		} else if (t.isImportNamespaceSpecifier(specifier)) {
+			clauses.push(`* as ${specifier.local.name}`);
+		} else if (t.isImportSpecifier(specifier)) {
+			const imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+			named.push(imported === specifier.local.name ? imported : `${imported} as ${specifier.local.name}`);
+		}
+	}
+	if (named.length > 0) clauses.push(`{ ${named.join(', ')} }`);
+	return `@import ${clauses.join(', ')} from ${source}`;
+}
+
+/**
+ * Returns the node a JSDoc comment for a declaration is written before: the statement exporting it,
+ * or for functions assigned to a variable, property or export, the declaration they are assigned in
+ * @param path - The path of the declaration
+ * @returns The node, or undefined if there's no declaration to document
+ */
+function getJSDocTarget(path: any): t.Node | undefined {
+	if (path.isFunctionExpression() || path.isArrowFunctionExpression()) {
+		const { parentPath } = path;
+		if (parentPath.isVariableDeclarator() && parentPath.parent.declarations.length === 1) {
+			return getJSDocTarget(parentPath.parentPath);
+		} else if (parentPath.isObjectProperty() || parentPath.isClassProperty()) {
+			return parentPath.node;
+		} else if (parentPath.isExportDefaultDeclaration()) {
+			return parentPath.node;
+		} else if (parentPath.isAssignmentExpression() && parentPath.parentPath.isExpressionStatement()) {
+			return parentPath.parent;
+		}
+		return undefined;
+	}
+	return path.parentPath.isExportDeclaration() ? path.parent : path.node;
+}
+
+/**
+ * Adds JSDoc comments documenting the types of a script, so its types survive being stripped and the
+ * JavaScript can still be type checked with `checkJs`. Parameter and return types become `@param` and
+ * `@returns` tags, interfaces and type aliases `@typedef` comments, variables and class fields `@type`
+ * tags, and type-only imports `@import` tags. Tags are merged into existing JSDoc comments.
+ * @param code - The script source
+ * @param options - Script options
+ * @returns The script source with JSDoc comments added, and the line each of its lines comes from
+ */
+async function addJSDocComments(
+	code: string,
+	options: StripScriptOptions = {}
+): Promise<{ code: string; lines: (number | undefined)[] }> {
+	const { traverse, generate } = await loadBabel();
+	const ast = parseScript(code, options);
+
+	const printType = (node: t.Node) => generate(node, { comments: false }).code.replace(/\s*\n\s*/g, ' ');
+	const tagsByTarget = new Map<t.Node, JSDocTag[]>();
+	const addTags = (target: t.Node | undefined, tags: JSDocTag[]) => {
+		if (!target || tags.length === 0) return;
+		tagsByTarget.set(target, [...(tagsByTarget.get(target) ?? []), ...tags]);
+	};
+
+	const edits: TextEdit[] = [];
+	const getIndent = (position: number) => {
+		const lineStart = code.lastIndexOf('\n', position - 1) + 1;
+		const indent = code.slice(lineStart, position);
+		return /^\s*$/.test(indent) ? { lineStart, indent } : undefined;
+	};
+
+	traverse(ast, {
+		Program(path: any) {
+			const typeReferences = collectTypeReferences(path);
+			for (const statementPath of path.get('body')) {
+				const statement = statementPath.node;
+				if (!t.isImportDeclaration(statement)) continue;
+
+				const specifiers = statement.specifiers.filter((specifier) =>
+					isTypeOnlyImport(path, statement, specifier, typeReferences, options)
+				);
+				const line = getIndent(statement.start!);
+				if (specifiers.length === 0 || !line) continue;
+
+				const quote = (statement.source.extra?.raw as string)[0];
+				const source = options.resolveImport?.(statement.source.value) ?? statement.source.value;
+				const tag = getImportTag(specifiers, `${quote}${source}${quote}`);
+				edits.push({ start: line.lineStart, end: line.lineStart, text: `${line.indent}/** ${tag} */\n` });
+			}
+		},
+		Function(path: any) {
+			addTags(getJSDocTarget(path), getFunctionTags(path.node, printType));
+		},
+		VariableDeclaration(path: any) {
+			const [declarator, ...rest] = path.node.declarations;
+			if (!path.node.declare && rest.length === 0 && t.isTSTypeAnnotation(declarator.id.typeAnnotation)) {
+				addTags(getJSDocTarget(path), [{ tag: 'type', type: printType(declarator.id.typeAnnotation.typeAnnotation) }]);
+			}
+		},
+		'ClassProperty|ClassPrivateProperty|ClassAccessorProperty'(path: any) {
+			const { node } = path;
+			if (!node.declare && !node.abstract && t.isTSTypeAnnotation(node.typeAnnotation)) {
+				addTags(node, [{ tag: 'type', type: printType(node.typeAnnotation.typeAnnotation) }]);
+			}
+		},
+		TSInterfaceDeclaration(path: any) {
+			if (!path.node.declare) addTags(getJSDocTarget(path), getInterfaceTags(path.node, printType));
+		},
+		TSTypeAliasDeclaration(path: any) {
+			if (path.node.declare) return;
+			addTags(getJSDocTarget(path), [
+				...getTemplateTags(path.node.typeParameters, printType),
+				{ tag: 'typedef', type: printType(path.node.typeAnnotation), name: path.node.id.name },
+			]);
+		},
+	});
+
+	for (const [target, tags] of tagsByTarget) {
+		const decorators: t.Decorator[] = (target as any).decorators ?? [];
+		const start = Math.min(target.start!, ...decorators.map((decorator) => decorator.start!));
+		const comment = target.leadingComments?.at(-1);
+
+		// Merge the tags into the JSDoc comment directly before the declaration
+		if (
+			comment?.type === 'CommentBlock' &&
+			comment.value.startsWith('*') &&
+			code.slice(comment.end!, start).trim() === ''
+		) {
+			const indent = getIndent(comment.start!)?.indent ?? '';
+			const lines = comment.value
+				.slice(1)
+				.split('\n')
+				.map((line) => line.replace(/^\s*\*?\s?/, '').trimEnd());
+			while (lines.length > 0 && lines[0] === '') lines.shift();
+			while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+			const merged = mergeJSDocTags(lines, tags).map((line) => `${indent} * ${line}`.trimEnd());
+			edits.push({ start: comment.start!, end: comment.end!, text: `/**\n${merged.join('\n')}\n${indent} */` });
+			continue;
+		}
+
+		const line = getIndent(start);
+		const indent = line?.indent ?? '';
+		const text =
+			tags.length === 1 && tags[0].tag === 'type'
+				? `/** ${formatJSDocTag(tags[0])} */`
+				: `/**\n${tags.map((tag) => `${indent} * ${formatJSDocTag(tag)}`).join('\n')}\n${indent} */`;
+		const position = line?.lineStart ?? start;
+		edits.push({ start: position, end: position, text: line ? `${indent}${text}\n` : `${text} ` });
+	}
+
+	return applyEdits(code, edits);
+}
+
+/**
+ * Helpers used by legacy decorators, equivalent to the ones tsc emits for `experimentalDecorators`.
+ * They are function declarations so they can be appended to the end of the file and still be hoisted.
+ */
+const LEGACY_DECORATOR_HELPERS: Record<string, string> = {
+	__decorate: `function __decorate(decorators, target, key, desc) {
+	const c = arguments.length;
+	let r = c < 3 ? target : desc === null ? (desc = Object.getOwnPropertyDescriptor(target, key)) : desc;
+	for (let i = decorators.length - 1; i >= 0; i--) {
+		const d = decorators[i];
+		if (d) r = (c < 3 ? d(r) : c > 3 ? d(target, key, r) : d(target, key)) || r;
+	}
+	if (c > 3 && r) Object.defineProperty(target, key, r);
+	return r;
+}`,
+	__param: `function __param(paramIndex, decorator) {
+	return function (target, key) {
+		decorator(target, key, paramIndex);
+	};
+}`,
+};
+
+/**
+ * Takes the decorators off a function's parameters and wraps them in `__param` helper calls
+ * @param params - The function parameters
+ * @param helpers - Names of the helpers used so far
+ * @returns The wrapped parameter decorators
+ */
+function takeParameterDecorators(params: t.Node[], helpers: Set<string>): t.Expression[] {
+	const decorators: t.Expression[] = [];
+	params.forEach((param: any, index) => {
+		for (const decorator of param.decorators ?? []) {
+			helpers.add('__param');
+			decorators.push(t.callExpression(t.identifier('__param'), [t.numericLiteral(index), decorator.expression]));
+		}
+		param.decorators = null;
+	});
+	return decorators;
+}
+
+/**
+ * Checks whether a class, any of its members or any of its methods' parameters are decorated
+ * @param node - The class
+ * @returns True if anything in the class is decorated
+ */
+function hasDecorators(node: t.Class): boolean {
+	const isDecorated = (decorated: any) => Boolean(decorated.decorators?.length);
+	return (
+		isDecorated(node) ||
+		node.body.body.some(
+			(member: any) => isDecorated(member) || (t.isClassMethod(member) && member.params.some(isDecorated))
+		)
+	);
+}
+
+/**
+ * Lowers legacy `experimentalDecorators` on a class declaration into `__decorate` helper calls,
+ * the same way tsc does:
+ *
+ * ```js
+ * let Service = class Service {};
+ * __decorate([Log], Service.prototype, 'run', null);
+ * Service = __decorate([Injectable(), __param(0, Inject(API))], Service);
+ * ```
+ *
+ * When the class refers to itself, those references go through an alias like `Service_1` that is
+ * also assigned the decorated class, as the class name inside the class is the undecorated class.
+ *
+ * The helper calls are written on the line of the class's closing brace, so the output keeps
+ * the original line numbers.
+ * @param path - The class declaration path
+ * @param helpers - Names of the helpers used so far; the helpers used by this class are added
+ * @param quote - The quote character to use for member names
+ */
+function lowerLegacyDecorators(path: any, helpers: Set<string>, quote: string): void {
+	const node: t.ClassDeclaration = path.node;
+	if (!path.isClassDeclaration()) {
+		throw new Error('Legacy decorators are only supported on class declarations');
+	}
+
+	const name = node.id?.name ?? '_default';
+	// Taken before any decorator is moved out of the class
+	const innerReferences: any[] = node.id
+		? (path.scope.getBinding(name)?.referencePaths ?? []).filter((reference: any) => reference.isDescendant(path))
+		: [];
+	const statements: t.Statement[] = [];
+	const onClosingLine = <T extends t.Node>(statement: T): T => {
+		statement.loc = node.loc && { ...node.loc, start: node.loc.end };
+		return statement;
+	};
+
+	for (const member of node.body.body as any[]) {
+		if (!t.isClassMethod(member) && !t.isClassProperty(member) && !t.isClassAccessorProperty(member)) continue;
+
+		const isConstructor = t.isClassMethod(member) && member.kind === 'constructor';
+		const decorators = [
+			...(member.decorators ?? []).map((decorator: t.Decorator) => decorator.expression),
+			...(t.isClassMethod(member) && !isConstructor ? takeParameterDecorators(member.params, helpers) : []),
+		];
+		member.decorators = null;
+		if (decorators.length === 0) continue;
+
+		let key: t.Expression;
+		if (!member.computed && t.isIdentifier(member.key)) {
+			key = createEnumValueLiteral(member.key.name, quote);
+		} else if (t.isStringLiteral(member.key) || t.isNumericLiteral(member.key)) {
+			key = member.key;
+		} else {
+			throw new Error(`Legacy decorators on computed class members are not supported (class ${name})`);
+		}
+
+		const target = member.static
+			? t.identifier(name)
+			: t.memberExpression(t.identifier(name), t.identifier('prototype'));
+		// Properties have no descriptor, methods and accessors have their descriptor looked up
+		const descriptor = t.isClassMethod(member) ? t.nullLiteral() : t.unaryExpression('void', t.numericLiteral(0));
+		helpers.add('__decorate');
+		statements.push(
+			onClosingLine(
+				t.expressionStatement(
+					t.callExpression(t.identifier('__decorate'), [t.arrayExpression(decorators), target, key, descriptor])
+				)
+			)
+		);
+	}
+
+	const constructor = node.body.body.find((member): member is t.ClassMethod =>
+		t.isClassMethod(member, { kind: 'constructor' })
+	);
+	const classDecorators = [
+		...(node.decorators ?? []).map((decorator) => decorator.expression),
+		...(constructor ? takeParameterDecorators(constructor.params, helpers) : []),
+	];
+	node.decorators = null;
+
+	const statementPath = path.parentPath.isExportDeclaration() ? path.parentPath : path;
+	if (classDecorators.length === 0) {
+		if (statements.length) statementPath.insertAfter(statements);
+		return;
+	}
+
+	// The class is reassigned to the result of its decorators, so it becomes a `let` binding
+	helpers.add('__decorate');
+	let alias: string | undefined;
+	if (innerReferences.length > 0) {
+		let index = 1;
+		while (path.scope.hasBinding(`${name}_${index}`)) index++;
+		alias = `${name}_${index}`;
+		for (const reference of innerReferences) {
+			if (reference.parentPath.isObjectProperty({ shorthand: true }) && reference.key === 'value') {
+				reference.parent.shorthand = false;
+			}
+			reference.replaceWith(t.identifier(alias));
+		}
+	}
+	// `Name = Name_1 = value` when the class has an alias, otherwise `Name = value`
+	const assignClass = (value: t.Expression) =>
+		alias ? t.assignmentExpression('=', t.identifier(alias), value) : value;
+
+	// The declaration starts on the line of the `class` keyword rather than its first decorator, so the name
+	// isn't printed on a line of its own
+	const classLoc = node.loc && { ...node.loc, start: (node.id ?? node.body).loc!.start };
+	const classExpression = t.classExpression(node.id ?? null, node.superClass, node.body, []);
+	classExpression.superTypeParameters = node.superTypeParameters;
+	classExpression.loc = classLoc;
+	const declaration = t.variableDeclaration('let', [
+		t.variableDeclarator(t.identifier(name), assignClass(classExpression)),
+	]);
+	declaration.loc = classLoc;
+
+	statements.push(
+		onClosingLine(
+			t.expressionStatement(
+				t.assignmentExpression(
+					'=',
+					t.identifier(name),
+					assignClass(
+						t.callExpression(t.identifier('__decorate'), [t.arrayExpression(classDecorators), t.identifier(name)])
+					)
+				)
+			)
+		)
+	);
+
+	let replacement: t.Statement[];
+	if (statementPath.isExportNamedDeclaration()) {
+		const exportDeclaration = t.exportNamedDeclaration(declaration, []);
+		exportDeclaration.loc = classLoc;
+		replacement = [exportDeclaration, ...statements];
+	} else if (statementPath.isExportDefaultDeclaration()) {
+		replacement = [declaration, ...statements, onClosingLine(t.exportDefaultDeclaration(t.identifier(name)))];
+	} else {
+		replacement = [declaration, ...statements];
+	}
+	if (alias) {
+		const aliasDeclaration = t.variableDeclaration('let', [t.variableDeclarator(t.identifier(alias))]);
+		aliasDeclaration.loc = classLoc;
+		replacement.unshift(aliasDeclaration);
+	}
+	t.inheritsComments(replacement[0], statementPath.node);
+	statementPath.replaceWithMultiple(replacement);
+}
+
+/**
+ * Appends the legacy decorator helpers used by a script to the end of its program. The helpers
+ * are parsed as if they came after the last line, so they are printed on lines of their own.
+ * @param programPath - The program path
+ * @param helpers - Names of the helpers to append
+ */
+function appendLegacyDecoratorHelpers(programPath: any, helpers: Set<string>): void {
+	if (helpers.size === 0) return;
+
+	const lastLine = programPath.node.loc?.end.line ?? 0;
+	const source = [...helpers].map((helper) => LEGACY_DECORATOR_HELPERS[helper]).join('\n\n');
+	const helperAST = babelParse(source, { sourceType: 'module', startLine: lastLine + 2 } as any);
+	programPath.pushContainer('body', helperAST.program.body);
+}
+
+/**
+ * Type declarations of a script that Vue macro types can refer to, keyed by name
+ */
+type VueTypeDeclarations = Map<string, t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration | t.TSEnumDeclaration>;
+
+/**
+ * A member of a type passed to a Vue macro
+ */
+interface VueTypeMember {
+	/** The property, method or call signature */
+	member: t.TSTypeElement;
+	/** Whether the property is optional, also considering `Partial` and `Required` */
+	optional: boolean;
+}
+
+/**
+ * Global types whose runtime constructor has the same name, as checked by Vue prop validation
+ */
+const VUE_GLOBAL_TYPES = new Set([
+	'String',
+	'Number',
+	'Boolean',
+	'Symbol',
+	'BigInt',
+	'Object',
+	'Array',
+	'Function',
+	'Date',
+	'RegExp',
+	'Error',
+	'Promise',
+	'Map',
+	'Set',
+	'WeakMap',
+	'WeakSet',
+]);
+
+/**
+ * Utility types whose runtime type is always `Object` or `String`
+ */
+const VUE_UTILITY_TYPES: Record<string, string> = {
+	Record: 'Object',
+	Partial: 'Object',
+	Required: 'Object',
+	Readonly: 'Object',
+	Pick: 'Object',
+	Omit: 'Object',
+	ReadonlyArray: 'Array',
+	Uppercase: 'String',
+	Lowercase: 'String',
+	Capitalize: 'String',
+	Uncapitalize: 'String',
+};
+
+/**
+ * Collects the interfaces, type aliases and enums declared at the top level of a script
+ * @param program - The program node
+ * @returns The declarations keyed by name
+ */
+function collectVueTypeDeclarations(program: t.Program): VueTypeDeclarations {
+	const declarations: VueTypeDeclarations = new Map();
+	for (const statement of program.body) {
+		const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+		if (
+			t.isTSInterfaceDeclaration(declaration) ||
+			t.isTSTypeAliasDeclaration(declaration) ||
+			t.isTSEnumDeclaration(declaration)
+		) {
+			declarations.set(declaration.id.name, declaration);
+		}
+	}
+	return declarations;
+}
+
+/**
+ * Resolves the members of a type passed to a Vue macro, following interfaces and type aliases
+ * declared in the same script
+ * @param node - The type
+ * @param declarations - The type declarations of the script
+ * @param macro - Name of the macro, for error messages
+ * @returns The members, in declaration order
+ */
+function resolveVueTypeMembers(node: t.TSType, declarations: VueTypeDeclarations, macro: string): VueTypeMember[] {
+	if (t.isTSTypeLiteral(node)) {
+		return node.members.map((member) => ({ member, optional: !!(member as any).optional }));
+	}
+	if (t.isTSParenthesizedType(node)) {
+		return resolveVueTypeMembers(node.typeAnnotation, declarations, macro);
+	}
+	if (t.isTSIntersectionType(node)) {
+		return node.types.flatMap((type) => resolveVueTypeMembers(type, declarations, macro));
+	}
+	if (t.isTSFunctionType(node)) {
+		// `defineEmits<(e: 'change') => void>()` declares a single call signature
+		return [{ member: t.tsCallSignatureDeclaration(null, node.parameters, node.typeAnnotation), optional: false }];
+	}
+	if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+		const name = node.typeName.name;
+		const [argument] = node.typeParameters?.params ?? [];
+		if ((name === 'Partial' || name === 'Required') && argument) {
+			return resolveVueTypeMembers(argument, declarations, macro).map(({ member }) => ({
+				member,
+				optional: name === 'Partial',
+			}));
+		}
+
+		const declaration = declarations.get(name);
+		if (t.isTSInterfaceDeclaration(declaration)) {
+			const inherited = (declaration.extends ?? []).flatMap((heritage) =>
+				resolveVueTypeMembers(t.tsTypeReference(heritage.expression), declarations, macro)
+			);
+			return [...inherited, ...resolveVueTypeMembers(t.tsTypeLiteral(declaration.body.body), declarations, macro)];
+		}
+		if (t.isTSTypeAliasDeclaration(declaration)) {
+			return resolveVueTypeMembers(declaration.typeAnnotation, declarations, macro);
+		}
+		throw new Error(`Unable to resolve the ${macro} type ${name}, as only types declared in the same file are supported`);
+	}
+	throw new Error(`Unsupported ${macro} type: ${node.type}`);
+}
+
+/**
+ * Returns the name of a type member, as in `label` for `label: string` or `'update:label'`
+ * @param member - The property or method signature
+ * @param macro - Name of the macro, for error messages
+ * @returns The member name
+ */
+function getVueTypeMemberName(member: t.TSPropertySignature | t.TSMethodSignature, macro: string): string {
+	const { key } = member;
+	if (!member.computed && t.isIdentifier(key)) return key.name;
+	if (t.isStringLiteral(key)) return key.value;
+	if (t.isNumericLiteral(key)) return String(key.value);
+	throw new Error(`Computed keys are not supported in ${macro} types`);
+}
+
+/**
+ * Infers the runtime types Vue checks a prop against, like `['String', 'null']` for `string | null`
+ * @param node - The type of the prop
+ * @param declarations - The type declarations of the script
+ * @param seen - Type aliases already followed, to stop at recursive types
+ * @returns The constructor names, or undefined when the prop may have any type
+ */
+function inferVueRuntimeTypes(
+	node: t.TSType | undefined,
+	declarations: VueTypeDeclarations,
+	seen = new Set<string>()
+): string[] | undefined {
+	switch (node?.type) {
+		case 'TSStringKeyword':
+			return ['String'];
+		case 'TSNumberKeyword':
+			return ['Number'];
+		case 'TSBooleanKeyword':
+			return ['Boolean'];
+		case 'TSSymbolKeyword':
+			return ['Symbol'];
+		case 'TSBigIntKeyword':
+			return ['BigInt'];
+		case 'TSNullKeyword':
+			return ['null'];
+		case 'TSUndefinedKeyword':
+		case 'TSVoidKeyword':
+			return [];
+		case 'TSObjectKeyword':
+		case 'TSMappedType':
+			return ['Object'];
+		case 'TSTypeLiteral':
+			return node.members.length > 0 && node.members.every((member) => t.isTSCallSignatureDeclaration(member))
+				? ['Function']
+				: ['Object'];
+		case 'TSFunctionType':
+		case 'TSConstructorType':
+			return ['Function'];
+		case 'TSArrayType':
+		case 'TSTupleType':
+			return ['Array'];
+		case 'TSLiteralType': {
+			const { literal } = node;
+			if (t.isStringLiteral(literal) || t.isTemplateLiteral(literal)) return ['String'];
+			if (t.isBooleanLiteral(literal)) return ['Boolean'];
+			if (t.isBigIntLiteral(literal)) return ['BigInt'];
+			return ['Number'];
+		}
+		case 'TSParenthesizedType':
+		case 'TSOptionalType':
+			return inferVueRuntimeTypes(node.typeAnnotation, declarations, seen);
+		case 'TSTypeOperator':
+			// `keyof T` can be any property key, `readonly T[]` is still an array
+			return node.operator === 'keyof'
+				? ['String', 'Number', 'Symbol']
+				: inferVueRuntimeTypes(node.typeAnnotation, declarations, seen);
+		case 'TSUnionType':
+		case 'TSIntersectionType': {
+			const types = new Set<string>();
+			for (const type of node.types) {
+				const inferred = inferVueRuntimeTypes(type, declarations, seen);
+				// A union with a member of any type can be anything, while an intersection is narrowed by its other members
+				if (!inferred && node.type === 'TSUnionType') return undefined;
+				inferred?.forEach((name) => types.add(name));
+			}
+			return types.size > 0 || node.type === 'TSUnionType' ? [...types] : undefined;
+		}
+		case 'TSTypeReference': {
+			if (!t.isIdentifier(node.typeName)) return undefined;
+			const name = node.typeName.name;
+			const declaration = declarations.get(name);
+			if (t.isTSInterfaceDeclaration(declaration)) {
+				return ['Object'];
+			}
+			if (t.isTSTypeAliasDeclaration(declaration)) {
+				if (seen.has(name)) return undefined;
+				return inferVueRuntimeTypes(declaration.typeAnnotation, declarations, new Set(seen).add(name));
+			}
+			if (t.isTSEnumDeclaration(declaration)) {
+				const types = declaration.members.map((member) =>
+					t.isStringLiteral(member.initializer) || t.isTemplateLiteral(member.initializer) ? 'String' : 'Number'
+				);
+				return [...new Set(types)];
+			}
+			if (VUE_GLOBAL_TYPES.has(name)) return [name];
+			return VUE_UTILITY_TYPES[name] ? [VUE_UTILITY_TYPES[name]] : undefined;
+		}
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Creates the `type` of a Vue prop from its runtime types, like `String` or `[String, null]`
+ * @param types - The constructor names, or undefined for any type
+ * @returns The expression, where `null` accepts any type
+ */
+function createVueRuntimeType(types: string[] | undefined): t.Expression {
+	const elements = (types ?? []).map((name) => (name === 'null' ? t.nullLiteral() : t.identifier(name)));
+	if (!types || elements.length === 0) return t.nullLiteral();
+	return elements.length === 1 ? elements[0] : t.arrayExpression(elements);
+}
+
+/**
+ * Creates an object key for a name, quoting it if it isn't a valid identifier
+ * @param name - The property name
+ * @param quote - The quote character to use for strings
+ * @returns The identifier or string literal
+ */
+function createPropertyKey(name: string, quote: string): t.Identifier | t.Expression {
+	return t.isValidIdentifier(name) ? t.identifier(name) : createEnumValueLiteral(name, quote);
+}
+
+/**
+ * Creates the runtime props declaration of a type-based `defineProps`, like
+ * `{ label: { type: String, required: true } }` for `{ label: string }`
+ * @param call - The `defineProps` call
+ * @param defaults - The defaults passed to `withDefaults`, if any
+ * @param declarations - The type declarations of the script
+ * @param quote - The quote character to use for strings
+ * @returns The props object
+ */
+function createVuePropsDeclaration(
+	call: t.CallExpression,
+	defaults: t.Node | undefined,
+	declarations: VueTypeDeclarations,
+	quote: string
+): t.ObjectExpression {
+	const defaultValues = new Map<string, t.ObjectProperty | t.ObjectMethod>();
+	if (defaults) {
+		if (!t.isObjectExpression(defaults)) {
+			throw new Error('The defaults passed to withDefaults must be an object literal');
+		}
+		for (const property of defaults.properties) {
+			const key = t.isSpreadElement(property) || property.computed ? undefined : property.key;
+			const name = t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : undefined;
+			if (name === undefined || t.isSpreadElement(property)) {
+				throw new Error('The defaults passed to withDefaults must have static keys');
+			}
+			defaultValues.set(name, property);
+		}
+	}
+
+	// Later members override earlier ones, as with interfaces extending others
+	const props = new Map<string, t.ObjectProperty>();
+	const [type] = call.typeParameters!.params;
+	for (const { member, optional } of resolveVueTypeMembers(type, declarations, 'defineProps')) {
+		if (!t.isTSPropertySignature(member) && !t.isTSMethodSignature(member)) continue;
+		const name = getVueTypeMemberName(member, 'defineProps');
+		const types = t.isTSMethodSignature(member)
+			? ['Function']
+			: inferVueRuntimeTypes(member.typeAnnotation?.typeAnnotation, declarations);
+
+		const options: (t.ObjectProperty | t.ObjectMethod)[] = [
+			t.objectProperty(t.identifier('type'), createVueRuntimeType(types)),
+			t.objectProperty(t.identifier('required'), t.booleanLiteral(!optional)),
+		];
+		// Defaults are copied without their locations, which would break the prop across their lines
+		const defaultValue = defaultValues.get(name);
+		if (t.isObjectMethod(defaultValue)) {
+			options.push({ ...t.cloneNode(defaultValue, true, true), key: t.identifier('default') });
+		} else if (defaultValue) {
+			const value = t.cloneNode(defaultValue.value as t.Expression, true, true);
+			options.push(t.objectProperty(t.identifier('default'), value));
+		}
+
+		const prop = t.objectProperty(createPropertyKey(name, quote), t.objectExpression(options));
+		// Props declared inline keep their lines, so the output lines still match the source
+		if (member.start! > call.start! && member.end! < call.end!) {
+			prop.loc = member.loc;
+		}
+		props.delete(name);
+		props.set(name, prop);
+	}
+	return t.objectExpression([...props.values()]);
+}
+
+/**
+ * Returns the string literal types of a type, like `['change', 'update']` for `'change' | 'update'`
+ * @param node - The type
+ * @param declarations - The type declarations of the script
+ * @returns The string values
+ */
+function getVueStringLiteralTypes(node: t.TSType | undefined, declarations: VueTypeDeclarations): string[] {
+	if (t.isTSLiteralType(node) && t.isStringLiteral(node.literal)) {
+		return [node.literal.value];
+	}
+	if (t.isTSUnionType(node)) {
+		return node.types.flatMap((type) => getVueStringLiteralTypes(type, declarations));
+	}
+	if (t.isTSParenthesizedType(node)) {
+		return getVueStringLiteralTypes(node.typeAnnotation, declarations);
+	}
+	const declaration =
+		t.isTSTypeReference(node) && t.isIdentifier(node.typeName) ? declarations.get(node.typeName.name) : undefined;
+	if (t.isTSTypeAliasDeclaration(declaration)) {
+		return getVueStringLiteralTypes(declaration.typeAnnotation, declarations);
+	}
+	throw new Error('Unable to resolve the defineEmits event names, as they must be string literal types');
+}
+
+/**
+ * Creates the runtime emits declaration of a type-based `defineEmits`, like `['change']` for
+ * `{ (e: 'change', id: number): void }` or `{ change: [id: number] }`
+ * @param call - The `defineEmits` call
+ * @param declarations - The type declarations of the script
+ * @param quote - The quote character to use for strings
+ * @returns The array of event names
+ */
+function createVueEmitsDeclaration(
+	call: t.CallExpression,
+	declarations: VueTypeDeclarations,
+	quote: string
+): t.ArrayExpression {
+	const names = new Set<string>();
+	const [type] = call.typeParameters!.params;
+	for (const { member } of resolveVueTypeMembers(type, declarations, 'defineEmits')) {
+		if (t.isTSCallSignatureDeclaration(member)) {
+			const [event] = member.parameters;
+			const eventType = t.isIdentifier(event) ? (event.typeAnnotation as t.TSTypeAnnotation)?.typeAnnotation : undefined;
+			getVueStringLiteralTypes(eventType, declarations).forEach((name) => names.add(name));
+		} else if (t.isTSPropertySignature(member) || t.isTSMethodSignature(member)) {
+			names.add(getVueTypeMemberName(member, 'defineEmits'));
+		}
+	}
+	return t.arrayExpression([...names].map((name) => createEnumValueLiteral(name, quote)));
+}
+
+/**
+ * Converts the type-based macros of a Vue `<script setup>` block to runtime declarations, as the
+ * Vue compiler can only infer props, emits and model types from TypeScript:
+ *
+ * - `defineProps<{ label: string }>()` becomes `defineProps({ label: { type: String, required: true } })`
+ * - `withDefaults(defineProps<Props>(), { count: 0 })` adds `default: 0` to the `count` prop
+ * - `defineEmits<{ (e: 'change'): void }>()` becomes `defineEmits(['change'])`
+ * - `defineModel<string>()` becomes `defineModel({ type: String })`
+ * @param programPath - The program path
+ * @param quote - The quote character to use for strings
+ */
+function lowerVueMacros(programPath: any, quote: string): void {
+	const declarations = collectVueTypeDeclarations(programPath.node);
+
+	programPath.traverse({
+		CallExpression(path: any) {
+			const node: t.CallExpression = path.node;
+			if (!t.isIdentifier(node.callee)) return;
+
+			if (node.callee.name === 'withDefaults') {
+				const [props, defaults] = node.arguments;
+				if (t.isCallExpression(props) && t.isIdentifier(props.callee, { name: 'defineProps' }) && props.typeParameters) {
+					props.arguments = [createVuePropsDeclaration(props, defaults, declarations, quote)];
+					props.typeParameters = null;
+					path.replaceWith(props);
+				}
+				return;
+			}
+
+			const [type] = node.typeParameters?.params ?? [];
+			if (!type) return;
+			if (node.callee.name === 'defineProps' && node.arguments.length === 0) {
+				node.arguments = [createVuePropsDeclaration(node, undefined, declarations, quote)];
+			} else if (node.callee.name === 'defineEmits' && node.arguments.length === 0) {
+				node.arguments = [createVueEmitsDeclaration(node, declarations, quote)];
+			} else if (node.callee.name === 'defineModel') {
+				// The model type goes in the options, which come after the optional model name
+				const types = inferVueRuntimeTypes(type, declarations);
+				let options = node.arguments.find((argument) => t.isObjectExpression(argument));
+				if (!types || node.arguments.some((argument) => t.isSpreadElement(argument))) return;
+				if (!options) {
+					options = t.objectExpression([]);
+					node.arguments.push(options);
+				}
+				const hasType = options.properties.some(
+					(property) => t.isObjectProperty(property) && t.isIdentifier(property.key, { name: 'type' })
+				);
+				if (!hasType) {
+					options.properties.unshift(t.objectProperty(t.identifier('type'), createVueRuntimeType(types)));
+				}
+			}
+		},
+	});
+}
+
+/**
+ * Creates the Babel visitor that removes TypeScript syntax from a parsed script.
+ * A new visitor should be created for each script, as it tracks enums declared in it.
+ * @param options - Script options
+ * @returns The visitor to pass to Babel traverse
+ */
+function createStripVisitor(options: StripScriptOptions = {}): Record<string, any> {
+	// Values of enums declared in the script, keyed by enum name then member name
+	const enums = new Map<string, Map<string, string | number>>();
+	// Const enums whose member accesses are inlined as literal values
+	const constEnums = new Set<string>();
+	// Namespaces already declared in each block with their exports, so merged namespaces are only declared
+	// once and can use each other's exports
+	const declaredNamespaces = new WeakMap<t.Node, Map<string, NamespaceExports>>();
+	// Legacy decorator helpers used in the script
+	const decoratorHelpers = new Set<string>();
+	// Quote character used for strings created by the visitor
+	let quote = "'";
+
+	return {
+		Program: {
+			enter(path: any) {
+				// Follow the quote style of the first string in the script
+				let firstString: string | undefined;
+				path.traverse({
+					StringLiteral(stringPath: any) {
+						firstString ??= stringPath.node.extra?.raw;
+					},
+				});
+				if (firstString) quote = firstString[0];
+
+				// Vue macros are lowered while the types they refer to are still declared
+				if (options.vueScriptSetup) {
+					lowerVueMacros(path, quote);
+				}
+
+				// Remove type-only imports and exports before the declarations they refer to are stripped
+				elideTypeOnlyModuleSyntax(path, options);
+
+				// Evaluate const enums up front, as their members can be used before the declaration is visited
+				path.traverse({
+					TSEnumDeclaration(enumPath: any) {
+						if (enumPath.node.const) {
+							evaluateEnumMembers(enumPath.node, enums);
+							constEnums.add(enumPath.node.id.name);
+						}
+					},
+				});
+			},
+			exit(path: any) {
+				appendLegacyDecoratorHelpers(path, decoratorHelpers);
+			},
+		},
+		TSTypeAnnotation(path: any) {
+			path.remove();
+		},
+		'TSInterfaceDeclaration|TSTypeAliasDeclaration'(path: any) {
+			// Babel moves the comments of removed statements to their siblings, so the `@typedef` comments
+			// of a script with only types are moved to the program to keep them
+			const statementPath = path.parentPath.isExportNamedDeclaration() ? path.parentPath : path;
+			if (options.jsdoc && statementPath.parentPath.isProgram() && statementPath.container.length === 1) {
+				t.addComments(statementPath.parent, 'inner', statementPath.node.leadingComments ?? []);
+			}
+			path.remove();
+		},
+		TSTypeParameterInstantiation(path: any) {
+			// Remove generic type parameters like <number> in useState<number>(5)
+			path.remove();
+		},
+		TSAsExpression(path: any) {
+			// Remove "as" casts, keep the expression
+			path.replaceWith(path.node.expression);
+		},
+		TSNonNullExpression(path: any) {
+			// Remove non-null assertions ("!")
+			path.replaceWith(path.node.expression);
+		},
+		TSTypeParameterDeclaration(path: any) {
+			// Remove generic declarations like <T> in function identity<T>(x: T)
+			path.remove();
+		},
+		'TSSatisfiesExpression|TSTypeAssertion|TSInstantiationExpression'(path: any) {
+			// Remove `value satisfies Type`, `<Type>value` casts and `makeBox<string>` instantiations
+			path.replaceWith(path.node.expression);
+		},
+		TSDeclareFunction(path: any) {
+			// Remove function overload signatures and `declare function`
+			path.remove();
+		},
+		VariableDeclaration(path: any) {
+			// Remove `declare const` and friends
+			if (path.node.declare) {
+				path.remove();
+			}
+		},
+		VariableDeclarator(path: any) {
+			// Remove definite assignment marks like `let x!: number`
+			path.node.definite = false;
+		},
+		Function(path: any) {
+			// Remove `this` parameters like `function handler(this: Window)`
+			const [first] = path.node.params;
+			if (t.isIdentifier(first) && first.name === 'this') {
+				path.get('params.0').remove();
+			}
+			// Stage 3 decorators can't decorate parameters, so parameter decorators are dropped
+			for (const param of path.node.params) {
+				param.decorators = null;
+			}
+		},
+		'Identifier|Pattern|RestElement'(path: any) {
+			// Remove optional parameter markers like `label?`
+			if (path.node.optional) {
+				path.node.optional = false;
+			}
+		},
+		TSImportEqualsDeclaration(path: any) {
+			const node: t.TSImportEqualsDeclaration = path.node;
+			if (node.importKind === 'type') {
+				path.remove();
+				return;
+			}
+
+			// `import fs = require('fs')` becomes a require call, `import Alias = A.B` a constant
+			const value = t.isTSExternalModuleReference(node.moduleReference)
+				? t.callExpression(t.identifier('require'), [node.moduleReference.expression])
+				: tsEntityNameToExpression(node.moduleReference);
+			const declaration = t.variableDeclaration('const', [t.variableDeclarator(node.id, value)]);
+			declaration.loc = node.loc;
+			t.inheritsComments(declaration, node);
+			if (node.isExport) {
+				const exportDeclaration = t.exportNamedDeclaration(declaration, []);
+				exportDeclaration.loc = node.loc;
+				path.replaceWith(exportDeclaration);
+			} else {
+				path.replaceWith(declaration);
+			}
+		},
+		TSExportAssignment(path: any) {
+			// `export = value` becomes `module.exports = value`
+			const assignment = t.expressionStatement(
+				t.assignmentExpression(
+					'=',
+					t.memberExpression(t.identifier('module'), t.identifier('exports')),
+					path.node.expression
+				)
+			);
+			assignment.loc = path.node.loc;
+			t.inheritsComments(assignment, path.node);
+			path.replaceWith(assignment);
+		},
+		TSNamespaceExportDeclaration(path: any) {
+			// Remove UMD global declarations like `export as namespace MyLib`
+			path.remove();
+		},
+		TSEnumDeclaration(path: any) {
+			const node: t.TSEnumDeclaration = path.node;
+
+			// Ambient enums have no runtime value
+			if (node.declare) {
+				path.remove();
+				return;
+			}
+
+			// Const enums are inlined, but keep the object when exported so other modules can still import it
+			if (node.const && !path.parentPath.isExportNamedDeclaration()) {
+				path.remove();
+				return;
+			}
+
+			if (!node.const && enums.has(node.id.name)) {
+				throw new Error(`Merged enum declarations are not supported: ${node.id.name}`);
+			}
+
+			const values = evaluateEnumMembers(node, enums);
+			if (!values.includes(undefined)) {
+				path.replaceWith(createEnumObject(node, values as (string | number)[], quote));
+				return;
+			}
+
+			// Members computed at runtime can refer to each other, which only the IIFE form allows
+			const target = path.parentPath.isExportNamedDeclaration() ? path.parentPath : path;
+			let declaration: t.Statement = t.variableDeclaration(target.parentPath.isProgram() ? 'var' : 'let', [
+				t.variableDeclarator(t.identifier(node.id.name)),
+			]);
+			declaration.loc = target.node.loc;
+			if (target !== path) {
+				declaration = t.exportNamedDeclaration(declaration, []);
+				declaration.loc = target.node.loc;
+			}
+			t.inheritsComments(declaration, target.node);
+			target.replaceWithMultiple([declaration, createEnumIIFE(node, values, quote)]);
+		},
+		MemberExpression(path: any) {
+			// Inline const enum members like Direction.Up as `1 /* Direction.Up */`
+			const { object } = path.node;
+			if (!t.isIdentifier(object) || !constEnums.has(object.name) || path.scope.hasBinding(object.name)) {
+				return;
+			}
+			const memberName = getStaticPropertyName(path.node);
+			const value = memberName === undefined ? undefined : enums.get(object.name)?.get(memberName);
+			if (value === undefined) return;
+
+			const literal = createEnumValueLiteral(value, quote);
+			t.addComment(literal, 'trailing', ` ${object.name}.${memberName} `, false);
+			path.replaceWith(literal);
+		},
+		Class(path: any) {
+			// Ambient classes have no runtime value
+			if (path.node.declare) {
+				path.remove();
+				return;
+			}
+			path.node.abstract = false;
+			path.node.implements = null;
+
+			if (options.decorators === 'legacy' && hasDecorators(path.node)) {
+				lowerLegacyDecorators(path, decoratorHelpers, quote);
+			}
+		},
+		'ClassProperty|ClassPrivateProperty|ClassAccessorProperty'(path: any) {
+			// Declared and abstract fields only exist in the type system
+			if (path.node.declare || path.node.abstract) {
+				path.remove();
+				return;
+			}
+			clearClassMemberModifiers(path.node);
+		},
+		'ClassMethod|ClassPrivateMethod'(path: any) {
+			clearClassMemberModifiers(path.node);
+			if (path.node.kind === 'constructor') {
+				lowerParameterProperties(path);
+			}
+		},
+		TSDeclareMethod(path: any) {
+			// Remove abstract methods and overload signatures
+			path.remove();
+		},
+		TSIndexSignature(path: any) {
+			// Remove index signatures in class bodies
+			path.remove();
+		},
+		TSModuleDeclaration(path: any) {
+			const node: t.TSModuleDeclaration = path.node;
+
+			// Remove `declare module`, `declare global` and namespaces that only contain types
+			if (!t.isIdentifier(node.id) || node.declare || !isInstantiatedNamespace(node)) {
+				path.remove();
+				return;
+			}
+
+			const name = node.id.name;
+			const target = path.parentPath.isExportNamedDeclaration() ? path.parentPath : path;
+			const container = target.parentPath.node;
+			const declared = declaredNamespaces.get(container) ?? new Map<string, NamespaceExports>();
+			declaredNamespaces.set(container, declared);
+
+			const statements: t.Statement[] = [];
+			// Merged namespaces, and namespaces merged with a function or class, reuse the existing binding
+			if (!declared.has(name) && !target.scope.hasOwnBinding(name)) {
+				const declaration = t.variableDeclaration(target.parentPath.isProgram() ? 'var' : 'let', [
+					t.variableDeclarator(t.identifier(name)),
+				]);
+				declaration.loc = target.node.loc;
+				if (target === path) {
+					statements.push(declaration);
+				} else {
+					const exportDeclaration = t.exportNamedDeclaration(declaration, []);
+					exportDeclaration.loc = target.node.loc;
+					statements.push(exportDeclaration);
+				}
+			}
+			const exports = declared.get(name) ?? new Map();
+			declared.set(name, exports);
+
+			const argument = t.logicalExpression(
+				'||',
+				t.identifier(name),
+				t.assignmentExpression('=', t.identifier(name), t.objectExpression([]))
+			);
+			statements.push(createNamespaceIIFE(path, argument, exports));
+			t.inheritsComments(statements[0], target.node);
+			target.replaceWithMultiple(statements);
+			// The new statements are traversed instead of the original namespace body
+			path.skip();
+		},
+		...(options.resolveImport
+			? createModuleSpecifierVisitor((node) => setStringLiteralValue(node, options.resolveImport!(node.value)))
+			: {}),
+	};
+}
+
+/**
+ * Parses TypeScript script source with the syntax plugins its options call for
+ * @param code - The script source
+ * @param options - Script options
+ * @returns The parsed file
+ */
+function parseScript(code: string, options: StripScriptOptions = {}): t.File {
+	const legacyDecorators = options.decorators === 'legacy';
+	const ast = babelParse(code, {
+		sourceType: 'module',
+		allowReturnOutsideFunction: options.topLevelReturn,
+		// Stage 3 decorators don't allow parameter decorators, so recover from those errors to drop them
+		errorRecovery: !legacyDecorators,
+		plugins: [
+			'typescript',
+			'explicitResourceManagement',
+			...(options.jsx ? ['jsx'] : []),
+			...(legacyDecorators ? ['decorators-legacy'] : [['decorators', { version: '2023-11' }], 'decoratorAutoAccessors']),
+		],
+	} as any);
+
+	const [parseError] = (ast.errors ?? []).filter((error: any) => error.reasonCode !== 'UnsupportedParameterDecorator');
+	if (parseError) {
+		throw parseError;
+	}
+	return ast;
+}
+
+/**
+ * Strips TypeScript syntax from script source using Babel, keeping the original line positions
+ * @param code - The script source
+ * @param options - Script options
+ * @returns The JavaScript source, with its mappings when source maps are enabled
+ */
+async function stripTSFromScript(code: string, options: StripScriptOptions = {}): Promise<TransformResult> {
+	const { traverse, generate } = await loadBabel();
+
+	const annotated = options.jsdoc ? await addJSDocComments(code, options) : undefined;
+	const source = annotated?.code ?? code;
+	const ast = parseScript(source, options);
+	traverse(ast, createStripVisitor(options));
+
+	const { code: processedCode, decodedMap } = generate(
+		ast,
+		{ retainLines: true, comments: true, sourceMaps: options.sourceMaps, sourceFileName: 'input' },
+		source
+	);
+	if (!decodedMap) {
+		return { code: processedCode };
+	}
+
+	const mappings = withoutNames(decodedMap.mappings);
+	// Map positions in the JSDoc-annotated source back to the source as written
+	return { code: processedCode, mappings: annotated ? remapSourceLines(mappings, annotated.lines) : mappings };
+}
+
+/**
+ * Options for removing unused imports
+ */
+interface RemoveUnusedImportsOptions {
+	/** Whether the code contains JSX */
+	jsx?: boolean;
+	/** Whether the code may return at the top level, as Astro frontmatter can */
+	topLevelReturn?: boolean;
+	/** Keep imports with no used bindings as side-effect imports */
+	preserveSideEffects?: boolean;
+	/** Names referenced outside the code, as by the template of a Vue or Svelte component, which keep imports */
+	templateReferences?: Set<string>;
+	/** With the classic runtime, JSX compiles to calls on the factory in scope, such as `React.createElement` */
+	jsxRuntime?: 'classic' | 'automatic';
+}
+
+/**
+ * Returns the name the classic JSX runtime needs in scope, which is `React` unless the
+ * file sets a factory with a `@jsx` pragma comment such as `/** @jsx h *\/`
+ * @param ast - The parsed file
+ * @returns The JSX factory's root identifier name
+ */
+function getJSXFactoryName(ast: t.File): string {
+	for (const comment of ast.comments ?? []) {
+		const match = comment.value.match(/@jsx\s+([A-Za-z_$][\w$]*)/);
+		if (match) return match[1];
+	}
+	return 'React';
+}
+
+/**
+ * Removes unused imports from JavaScript/TypeScript code. An import is used when its binding is
+ * referenced in the scope it is declared in, so object keys, property accesses like `foo.Button`
+ * and shadowing locals with the same name don't count as usages.
+ * @param input - The code to process, and its mappings to keep up to date
+ * @param options - Options for removing unused imports
  * @returns The code with unused imports removed
  */
-async function removeUnusedImports(code: string, isJSX: boolean = false): Promise<string> {
+async function removeUnusedImports(
+	input: TransformResult,
+	options: RemoveUnusedImportsOptions = {}
+): Promise<TransformResult> {
+	const { code, mappings } = input;
+	const {
+		jsx = false,
+		topLevelReturn = false,
+		preserveSideEffects = false,
+		jsxRuntime = 'automatic',
+		templateReferences,
+	} = options;
+
+	try {
+		const { traverse, generate } = await loadBabel();
+
+		const ast = babelParse(code, {
+			sourceType: 'module',
+			allowReturnOutsideFunction: topLevelReturn,
+			plugins: [
+				'explicitResourceManagement',
+				...(jsx ? ['jsx'] : []),
+				['decorators', { version: '2023-11' }],
+				'decoratorAutoAccessors',
+			],
+		} as any);
+
+		// The classic JSX runtime needs its factory in scope wherever JSX is used
+		let jsxFactoryName: string | undefined;
+		if (jsxRuntime === 'classic') {
+			traverse(ast, {
+				'JSXElement|JSXFragment'(path: any) {
+					jsxFactoryName = getJSXFactoryName(ast);
+					path.stop();
+				},
+			});
+		}
+
+		traverse(ast, {
+			ImportDeclaration(path: any) {
+				const specifiers = path.node.specifiers || [];
+
+				// If there are no specifiers, this is a side-effect import (e.g., import './styles.css')
+				// We should preserve these imports as they have side effects
+				if (specifiers.length === 0) {
+					return; // Keep the import, don't process it
+				}
+
+				const usedSpecifiers = specifiers.filter((specifier: any) => {
+					const name = specifier.local.name;
+					if (name === jsxFactoryName || templateReferences?.has(name)) {
+						return true;
+					}
+					return path.scope.getBinding(name)?.referenced ?? true;
+				});
+
+				if (usedSpecifiers.length === 0 && preserveSideEffects) {
+					// Keep the module's side effects, as in `import './module'`
+					path.node.specifiers = [];
+				} else if (usedSpecifiers.length === 0) {
+					// Remove entire import if no specifiers are used
+					path.remove();
+				} else if (usedSpecifiers.length !== specifiers.length) {
+					// Update import to only include used specifiers
+					path.node.specifiers = usedSpecifiers;
+				}
+			},
+		});
+
+		const { code: processedCode, decodedMap } = generate(ast, {
+			retainLines: true,
+			comments: true,
+			// Babel maps the output through the input's mappings, so they still point to the original source
+			sourceMaps: !!mappings,
+			sourceFileName: 'input',
+			inputSourceMap: mappings && { version: 3, sources: ['input'], names: [], mappings },
+		});
+		return collapseBlankLines({ code: processedCode, mappings: decodedMap && withoutNames(decodedMap.mappings) });
+	} catch (error) {
+		// If there's an error processing imports, return the original code
+		console.warn('Warning: Could not remove unused imports:', error);
+		return input;
+	}
+}
+
+/**
+ * Vue template AST node types, as in `NodeTypes` of @vue/compiler-core
+ */
+const VUE_NODE_TYPES = { ELEMENT: 1, SIMPLE_EXPRESSION: 4, INTERPOLATION: 5, DIRECTIVE: 7 } as const;
+
+/**
+ * Directives built into Vue, which don't refer to a `vName` binding like custom directives do
+ */
+const VUE_BUILT_IN_DIRECTIVES = new Set([
+	'bind',
+	'on',
+	'if',
+	'else',
+	'else-if',
+	'for',
+	'show',
+	'model',
+	'slot',
+	'html',
+	'text',
+	'once',
+	'memo',
+	'pre',
+	'cloak',
+	'is',
+]);
+
+/**
+ * How the code of a template expression is parsed: as an expression, as statements like Vue `v-on`
+ * handlers and Svelte `{@const}` tags, or as parameters like Vue `v-slot` props and Svelte `{#each}` items
+ */
+type TemplateExpressionKind = 'expression' | 'statements' | 'params';
+
+/**
+ * An expression of a Vue template
+ */
+interface VueTemplateExpression {
+	/** The simple expression node, with offsets into the whole file */
+	node: any;
+	/** How the expression is parsed */
+	kind: TemplateExpressionKind;
+	/** Length of the text at the start of the node that isn't part of the expression, like `item in ` */
+	prefix: number;
+}
+
+/**
+ * Returns the interpolations and directive expressions of a Vue template, in template order
+ * @param node - The template AST node
+ * @returns The expressions
+ */
+function getVueTemplateExpressions(node: any): VueTemplateExpression[] {
+	const expressions: VueTemplateExpression[] = [];
+	const add = (expression: any, kind: TemplateExpressionKind, prefix = 0) => {
+		if (expression?.type === VUE_NODE_TYPES.SIMPLE_EXPRESSION && !expression.isStatic) {
+			expressions.push({ node: expression, kind, prefix });
+		}
+	};
+
+	if (node.type === VUE_NODE_TYPES.INTERPOLATION) {
+		add(node.content, 'expression');
+	}
+	for (const prop of node.type === VUE_NODE_TYPES.ELEMENT ? node.props : []) {
+		if (prop.type !== VUE_NODE_TYPES.DIRECTIVE) continue;
+		add(prop.arg, 'expression');
+		if (prop.name === 'for') {
+			// Only the source of `item in items` can have types, so the aliases are skipped
+			const source = /^[\s\S]*?\s+(?:in|of)\s+/.exec(prop.exp?.loc.source ?? '');
+			if (source) add(prop.exp, 'expression', source[0].length);
+		} else {
+			add(prop.exp, prop.name === 'on' ? 'statements' : prop.name === 'slot' ? 'params' : 'expression');
+		}
+	}
+	for (const child of node.children ?? []) {
+		expressions.push(...getVueTemplateExpressions(child));
+	}
+	return expressions;
+}
+
+/**
+ * Parses an expression of a Vue or Svelte template, wrapping it so that Babel can parse it as a script
+ * @param code - The expression source
+ * @param kind - How the expression is parsed
+ * @returns The parsed file and the wrapped source, or undefined if the expression can't be parsed
+ */
+function parseTemplateExpression(code: string, kind: TemplateExpressionKind): { ast: t.File; source: string } | undefined {
+	const source = kind === 'params' ? `(${code}) => {}` : kind === 'expression' ? `(${code})` : code;
+	try {
+		return { ast: parseScript(source), source };
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Strips TypeScript from an expression of a Vue or Svelte template. Expressions without TypeScript, and
+ * ones that can't be parsed, are returned unchanged so the template is only edited where needed.
+ * @param code - The expression source
+ * @param kind - How the expression is parsed
+ * @returns The JavaScript expression source
+ */
+async function stripTSFromTemplateExpression(code: string, kind: TemplateExpressionKind): Promise<string> {
+	const { traverse, generate } = await loadBabel();
+	const parsed = parseTemplateExpression(code, kind);
+	if (!parsed) {
+		return code;
+	}
+	const { ast, source } = parsed;
+
+	let hasTypeScript = false;
+	t.traverseFast(ast.program, (node) => {
+		hasTypeScript ||= node.type.startsWith('TS');
+	});
+	if (!hasTypeScript) {
+		return code;
+	}
+
+	traverse(ast, createStripVisitor());
+	const print = (node: t.Node) => generate(node, { retainLines: true, comments: true }, source).code;
+	const [statement] = ast.program.body;
+	if (kind === 'params') {
+		const { params } = (statement as t.ExpressionStatement).expression as t.ArrowFunctionExpression;
+		return params.map(print).join(', ');
+	}
+	if (kind === 'expression') {
+		return print((statement as t.ExpressionStatement).expression);
+	}
+	// The generator ends every statement with a semicolon, which the code may not have had
+	const statements = print(ast.program);
+	return code.trimEnd().endsWith(';') ? statements : statements.replace(/;$/, '');
+}
+
+/**
+ * Collects edits that strip TypeScript from the interpolations and directive expressions of a Vue template,
+ * like `(item as Item).id` or `handle($event as MouseEvent)`
+ * @param root - The template AST, with offsets into the whole file
+ * @param content - The file content
+ * @returns The edits to the file
+ */
+async function getVueTemplateEdits(root: any, content: string): Promise<TextEdit[]> {
+	const edits: TextEdit[] = [];
+	for (const { node, kind, prefix } of getVueTemplateExpressions(root)) {
+		const start = node.loc.start.offset + prefix;
+		const end = node.loc.end.offset;
+		const code = content.slice(start, end);
+		const text = await stripTSFromTemplateExpression(code, kind);
+		if (text !== code) {
+			edits.push({ start, end, text });
+		}
+	}
+	return edits;
+}
+
+/**
+ * Converts a kebab-case name to camelCase, as Vue does when resolving components and directives
+ * @param name - The name, like `my-button`
+ * @returns The camelCase name, like `myButton`
+ */
+function camelize(name: string): string {
+	return name.replace(/-(\w)/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Collects the names a Vue template can refer to script bindings by: identifiers in its expressions,
+ * component tags like `<MyButton>` or `<my-button>`, and custom directives like `v-focus` for `vFocus`
+ * @param root - The template AST
+ * @returns The referenced names
+ */
+async function collectVueTemplateReferences(root: any): Promise<Set<string>> {
+	const { traverse } = await loadBabel();
+	const references = new Set<string>();
+
+	for (const { node, kind } of getVueTemplateExpressions(root)) {
+		const parsed = parseTemplateExpression(node.loc.source, kind);
+		if (!parsed) continue;
+		traverse(parsed.ast, {
+			ReferencedIdentifier(path: any) {
+				references.add(path.node.name);
+			},
+		});
+	}
+
+	const visit = (node: any) => {
+		if (node.type === VUE_NODE_TYPES.ELEMENT) {
+			// Components can be used by their kebab-case name, or as a namespace like `<Form.Input>`
+			const [tag] = node.tag.split('.');
+			const name = camelize(tag);
+			references.add(tag).add(name).add(name[0].toUpperCase() + name.slice(1));
+
+			for (const prop of node.props) {
+				if (prop.type !== VUE_NODE_TYPES.DIRECTIVE) continue;
+				if (!VUE_BUILT_IN_DIRECTIVES.has(prop.name)) {
+					const directive = camelize(prop.name);
+					references.add(`v${directive[0].toUpperCase()}${directive.slice(1)}`);
+				}
+				// `:title` is short for `:title="title"`
+				if (prop.name === 'bind' && !prop.exp && prop.arg?.isStatic) {
+					references.add(camelize(prop.arg.content));
+				}
+			}
+		}
+		node.children?.forEach(visit);
+	};
+	visit(root);
+	return references;
+}
+
+/**
+ * Properties of Svelte markup nodes that hold JavaScript, and how their code is parsed
+ */
+const SVELTE_EXPRESSION_KINDS: Record<string, TemplateExpressionKind> = {
+	expression: 'expression',
+	test: 'expression',
+	key: 'expression',
+	context: 'params',
+	value: 'params',
+	error: 'params',
+	declaration: 'statements',
+	parameters: 'params',
+};
+
+/**
+ * Collects edits that strip TypeScript from the expressions of Svelte markup, like `{value as string}`,
+ * `on:click={(e: MouseEvent) => select(e)}` or `{#each items as item (item.id!)}`
+ * @param fragment - The markup AST, as parsed by Svelte in modern mode
+ * @param code - The component source the AST was parsed from
+ * @returns The edits to the component
+ */
+async function getSvelteMarkupEdits(fragment: any, code: string): Promise<TextEdit[]> {
+	const expressions: { start: number; end: number; kind: TemplateExpressionKind }[] = [];
+	const visit = (node: any) => {
+		if (Array.isArray(node)) {
+			node.forEach(visit);
+			return;
+		}
+		for (const [key, value] of Object.entries(node)) {
+			const kind = SVELTE_EXPRESSION_KINDS[key];
+			if (!value || typeof value !== 'object' || key === 'metadata') continue;
+			if (kind && key === 'parameters' && Array.isArray(value) && value.length > 0) {
+				// Snippet parameters are stripped together, as a parameter list
+				expressions.push({ start: value[0].start, end: value[value.length - 1].end, kind });
+			} else if (kind && !Array.isArray(value) && (value as any).type !== 'ExpressionTag') {
+				expressions.push({ start: (value as any).start, end: (value as any).end, kind });
+			} else {
+				// Attribute values like `class="a {b}"` are markup holding expression tags
+				visit(value);
+			}
+		}
+	};
+	visit(fragment);
+
+	const edits: TextEdit[] = [];
+	for (const { start, end, kind } of expressions) {
+		const expression = code.slice(start, end);
+		const text = await stripTSFromTemplateExpression(expression, kind);
+		if (text !== expression) {
+			edits.push({ start, end, text });
+		}
+	}
+	return edits;
+}
+
+/**
+ * Collects the names the markup of a Svelte component refers to script bindings by: identifiers in its
+ * expressions, components like `<Button>`, and directives like `use:tooltip` or `transition:fade`.
+ * Store subscriptions like `$count` refer to the `count` binding.
+ * @param ast - The component AST, as parsed by Svelte in modern mode
+ * @returns The referenced names
+ */
+function collectSvelteTemplateReferences(ast: any): Set<string> {
+	const references = new Set<string>();
+	const visit = (node: any, parent: any) => {
+		if (!node || typeof node !== 'object') return;
+		if (Array.isArray(node)) {
+			node.forEach((child) => visit(child, parent));
+			return;
+		}
+
+		if (node.type === 'Identifier') {
+			// Property names like `prop` in `obj.prop` and `{ prop: value }` aren't references
+			const isPropertyName =
+				(parent?.type === 'MemberExpression' && parent.property === node && !parent.computed) ||
+				(parent?.type === 'Property' && parent.key === node && !parent.computed && !parent.shorthand);
+			if (!isPropertyName) references.add(node.name);
+			if (/^\$[^$]/.test(node.name)) references.add(node.name.slice(1));
+		} else if (['Component', 'UseDirective', 'TransitionDirective', 'AnimateDirective'].includes(node.type)) {
+			references.add(node.name.split('.')[0]);
+		}
+
+		for (const [key, value] of Object.entries(node)) {
+			if (key !== 'loc' && key !== 'metadata') visit(value, node);
+		}
+	};
+	visit(ast.fragment, undefined);
+	return references;
+}
+
+/**
+ * Collects edits that turn typed reactive declarations of a Svelte script like `$: total: number = a + b`
+ * into `$: total = a + b`. TypeScript has no syntax for these, so they parse as a label followed by an
+ * assignment to the type.
+ * @param code - The script source
+ * @returns The edits to the script
+ */
+function getSvelteTypedReactiveEdits(code: string): TextEdit[] {
+	if (!/\$:\s*[\w$]+\s*:/.test(code)) return [];
+
+	const edits: TextEdit[] = [];
+	const ast = babelParse(code, { sourceType: 'module', plugins: ['typescript'], errorRecovery: true });
+	for (const statement of ast.program.body) {
+		const declaration = t.isLabeledStatement(statement) && statement.label.name === '$' ? statement.body : undefined;
+		if (
+			t.isLabeledStatement(declaration) &&
+			t.isExpressionStatement(declaration.body) &&
+			t.isAssignmentExpression(declaration.body.expression, { operator: '=' })
+		) {
+			edits.push({ start: declaration.label.end!, end: declaration.body.expression.left.end!, text: '' });
+		}
+	}
+	return edits;
+}
+
+/**
+ * Collects the identifier names used in a script, so that imports used by another script of the same
+ * component are kept
+ * @param code - The script source
+ * @returns The identifier names
+ */
+function collectIdentifierNames(code: string): Set<string> {
+	const names = new Set<string>();
+	t.traverseFast(parseScript(code).program, (node) => {
+		if (t.isIdentifier(node)) names.add(node.name);
+	});
+	return names;
+}
+
+/**
+ * Languages of Markdown code fences that are stripped, with the file type their code is stripped as
+ * and the language of the fence it becomes
+ */
+const MARKDOWN_FENCE_LANGUAGES: Record<string, { fileType: 'ts' | 'tsx'; lang: string }> = {
+	ts: { fileType: 'ts', lang: 'js' },
+	typescript: { fileType: 'ts', lang: 'js' },
+	tsx: { fileType: 'tsx', lang: 'jsx' },
+};
+
+/**
+ * A fenced code block of a Markdown file
+ */
+interface MarkdownCodeFence {
+	/** The first word of the info string, as in `ts` for ```` ```ts title="a.ts" ```` */
+	lang: string;
+	/** Offset of the language in the opening fence */
+	langStart: number;
+	/** Offsets of the opening and closing fences, which enclose the whole block */
+	start: number;
+	end: number;
+	/** Offsets of the code, from the end of the opening fence's line to the end of the last line of code */
+	codeStart: number;
+	codeEnd: number;
+	/** Indentation of the opening fence, which is removed from each line of code */
+	indent: number;
+}
+
+/**
+ * Finds the fenced code blocks of a Markdown file, following the CommonMark rules for ``` and ~~~ fences
+ * @param content - The Markdown source
+ * @returns The code fences, in the order they appear. An unclosed fence runs to the end of the file.
+ */
+function getMarkdownCodeFences(content: string): MarkdownCodeFence[] {
+	const fences: MarkdownCodeFence[] = [];
+	let open: Omit<MarkdownCodeFence, 'end' | 'codeEnd'> | undefined;
+	let openMarker = '';
+	let offset = 0;
+
+	for (const line of content.split('\n')) {
+		const lineStart = offset;
+		offset += line.length + 1;
+
+		// Lines of files with CRLF line endings keep their `\r`, which would otherwise end up in the info string
+		const fence = /^( {0,3})(`{3,}|~{3,})(.*?)\r?$/.exec(line);
+		if (!fence) continue;
+		const [, indent, marker, info] = fence;
+
+		if (!open) {
+			// Info strings of backtick fences can't contain backticks
+			if (marker[0] === '`' && info.includes('`')) continue;
+			const lang = info.trim().split(/\s+/)[0];
+			open = {
+				lang,
+				langStart: lineStart + indent.length + marker.length + info.indexOf(lang),
+				start: lineStart,
+				codeStart: lineStart + line.length,
+				indent: indent.length,
+			};
+			openMarker = marker;
+		} else if (marker[0] === openMarker[0] && marker.length >= openMarker.length && !info.trim()) {
+			fences.push({ ...open, end: lineStart + line.length, codeEnd: lineStart - 1 });
+			open = undefined;
+		}
+	}
+
+	if (open) {
+		const codeEnd = content.endsWith('\n') ? content.length - 1 : content.length;
+		fences.push({ ...open, end: content.length, codeEnd: Math.max(codeEnd, open.codeStart) });
+	}
+	return fences;
+}
+
+/**
+ * Finds the ESM blocks of an MDX file, which are paragraphs of `import` and `export` statements
+ * at the top level, outside code fences
+ * @param content - The MDX source
+ * @param fences - The code fences of the file
+ * @returns The offsets of each block
+ */
+function getMdxESMBlocks(content: string, fences: MarkdownCodeFence[]): { start: number; end: number }[] {
+	return [...content.matchAll(/^(?:import|export)\b.*(?:\n(?![^\S\n]*(?:\n|$)).*)*/gm)]
+		.map((match) => ({ start: match.index!, end: match.index! + match[0].length }))
+		.filter((block) => !fences.some((fence) => block.start >= fence.start && block.start < fence.end));
+}
+
+/**
+ * Returns whether code parses as JavaScript with JSX, so it has no TypeScript to strip
+ * @param code - The code
+ */
+function isJavaScript(code: string): boolean {
 	try {
-		const [traverseModule, generateModule] = await Promise.all([
-			import('@babel/traverse'),
-			import('@babel/generator'),
-		]);
+		babelParse(code, { sourceType: 'module', plugins: ['jsx', 'explicitResourceManagement'] });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * A script of a component file, stripped of TypeScript
+ */
+interface ComponentScript {
+	/** Offset of the script's content in the component */
+	start: number;
+	/** Mappings of the stripped script to its content, when source maps are enabled */
+	mappings?: SourceMapMappings;
+}
 
-		// Robustly extract traverse and generate functions
-		let traverse: any = traverseModule;
-		if (typeof traverseModule === 'object') {
-			if (typeof (traverseModule as any)['default'] === 'function') {
-				traverse = (traverseModule as any)['default'];
-			} else if (
-				typeof (traverseModule as any)['default'] === 'object' &&
-				typeof (traverseModule as any)['default']['default'] === 'function'
-			) {
-				traverse = (traverseModule as any)['default']['default'];
+/**
+ * Applies edits to a component file, where each script's content is replaced by its stripped code
+ * @param content - The component source
+ * @param edits - The edits to the scripts, their tags and the markup
+ * @param scripts - The stripped scripts
+ * @param sourceMaps - Whether to generate source map mappings
+ * @returns The edited component, with its mappings when source maps are enabled
+ */
+function applyComponentEdits(
+	content: string,
+	edits: TextEdit[],
+	scripts: ComponentScript[],
+	sourceMaps: boolean
+): TransformResult {
+	const edited = applyEdits(content, edits);
+	if (!sourceMaps) {
+		return { code: edited.code };
+	}
+
+	// The scripts' mappings point into their content, so they are moved to where it is in the file.
+	// Each script's code starts on the line after its opening tag, unless it replaces the script in place.
+	const mappings = edited.lines.map((line): SourceMapSegment[] => (line === undefined ? [] : [[0, 0, line, 0]]));
+	for (const script of scripts) {
+		if (!script.mappings) continue;
+		const start = getLineColumn(content, script.start);
+		const edit = edits.find((candidate) => candidate.start === script.start)!;
+		const line = getEditedLine(content, edits, script.start) + (edit.text.startsWith('\n') ? 1 : 0);
+		offsetSourcePositions(script.mappings, start.line, start.column).forEach((segments, index) => {
+			mappings[line + index] = segments;
+		});
+	}
+	return { code: edited.code, mappings };
+}
+
+/**
+ * Strips TypeScript from source content of any supported file type.
+ * @param content - The source content.
+ * @param fileType - The type of file ('ts', 'tsx', 'mts', 'cts', 'vue', 'svelte', 'astro', 'md', 'mdx').
+ * @param options - Configuration options, plus the file name used to resolve imports and for Svelte diagnostics
+ * @returns The JavaScript content with its mappings when source maps are enabled, or null if the file
+ * contains no TypeScript to strip.
+ */
+async function stripTSFromSource(
+	content: string,
+	fileType: FileType,
+	options: Omit<StripTSOptions, 'outDir'> & { filename?: string } = {}
+): Promise<TransformResult | null> {
+	const {
+		forceStrip = false,
+		removeUnusedImports: removeUnusedImportsOpt = true,
+		verbatimModuleSyntax = false,
+		importsNotUsedAsValues = 'remove',
+		jsxRuntime = 'automatic',
+		decorators = 'preserve',
+		importExtensions = 'rewrite',
+		jsdoc = false,
+		sourceMap = false,
+		filename,
+	} = options;
+	const resolveImport = importExtensions === 'preserve' ? undefined : createImportResolver(importExtensions, filename);
+	const sourceMaps = !!sourceMap;
+	const scriptOptions = { verbatimModuleSyntax, importsNotUsedAsValues, decorators, resolveImport, jsdoc, sourceMaps };
+	const preserveSideEffects = verbatimModuleSyntax || importsNotUsedAsValues === 'preserve';
+
+	if (fileType === 'ts' || fileType === 'tsx' || fileType === 'mts' || fileType === 'cts') {
+		const isTSX = fileType === 'tsx';
+		// Only .tsx files are parsed with JSX, which would otherwise conflict with `<Type>value` casts
+		let result = await stripTSFromScript(content, { jsx: isTSX, ...scriptOptions });
+
+		// Remove unused imports after TypeScript stripping
+		if (removeUnusedImportsOpt) {
+			result = await removeUnusedImports(result, { jsx: isTSX, preserveSideEffects, jsxRuntime });
+		}
+		return collapseBlankLines(result);
+	} else if (fileType === 'vue') {
+		const sfc = parseVue(content);
+		const hasTs = sfc.descriptor.script?.lang === 'ts' || sfc.descriptor.scriptSetup?.lang === 'ts';
+
+		if (!hasTs && !forceStrip) {
+			return null;
+		}
+
+		// `<script>` and `<script setup>` are stripped independently, in the order they appear
+		const blocks = [sfc.descriptor.script, sfc.descriptor.scriptSetup]
+			.filter((block): block is SFCScriptBlock => !!block && (block.lang === 'ts' || forceStrip))
+			.sort((a, b) => a.loc.start.offset - b.loc.start.offset);
+
+		// Imports used by the template are kept. Templates in other languages like Pug can't be analyzed,
+		// so every name used by the scripts counts as referenced and all their imports are kept.
+		const { template } = sfc.descriptor;
+		const templateReferences =
+			template?.ast && !template.lang
+				? await collectVueTemplateReferences(template.ast)
+				: new Set(blocks.flatMap((block) => [...collectIdentifierNames(block.content)]));
+
+		const edits: TextEdit[] = [];
+		const scripts: ComponentScript[] = [];
+		for (const block of blocks) {
+			// Imports of `<script>` can also be used by `<script setup>`, and the other way around
+			const otherBlock = block === sfc.descriptor.script ? sfc.descriptor.scriptSetup : sfc.descriptor.script;
+			const references = new Set([
+				...templateReferences,
+				...(otherBlock ? collectIdentifierNames(otherBlock.content) : []),
+			]);
+
+			let processedScript = await stripTSFromScript(block.content, {
+				templateReferences: references,
+				vueScriptSetup: block === sfc.descriptor.scriptSetup,
+				...scriptOptions,
+			});
+			if (removeUnusedImportsOpt) {
+				processedScript = await removeUnusedImports(processedScript, {
+					preserveSideEffects,
+					templateReferences: references,
+				});
 			}
+
+			// Only the `lang` attribute of the opening tag is removed, keeping `setup` and any other attributes
+			const contentStart = block.loc.start.offset;
+			const tagStart = content.lastIndexOf('<script', contentStart);
+			const tag = content.slice(tagStart, contentStart);
+			const tagText = tag.replace(/\s+lang\s*=\s*(?:"ts"|'ts'|ts(?=[\s/>]))/, '');
+			const scriptText = `\n${processedScript.code}\n`;
+			edits.push(
+				{ start: tagStart, end: contentStart, text: tagText },
+				{ start: contentStart, end: block.loc.end.offset, text: scriptText }
+			);
+
+			scripts.push({ start: contentStart, mappings: processedScript.mappings });
+		}
+
+		// Templates in other languages like Pug are left as they are
+		if (template?.ast && !template.lang) {
+			edits.push(...(await getVueTemplateEdits(template.ast, content)));
+		}
+
+		return applyComponentEdits(content, edits, scripts, sourceMaps);
+	} else if (fileType === 'svelte') {
+		// Script blocks are parsed by Babel, so they are blanked out for Svelte to only parse the markup and tags.
+		// `lang="ts"` is still on the tags at this point, so TypeScript in the markup can be parsed.
+		const blankedContent = content.replace(/(<script\b(?:[^>"']|"[^"]*"|'[^']*')*>)([\s\S]*?)(<\/script>)/g, (_, open, script, close) => {
+			return open + script.replace(/[^\n]/g, ' ') + close;
+		});
+		const svelteAST: any = parseSvelte(blankedContent, { filename, modern: true });
+		const isTs = (block: any) =>
+			block.attributes.some(
+				(attribute: any) =>
+					attribute.name === 'lang' && ['ts', 'typescript'].includes(attribute.value?.[0]?.data)
+			);
+
+		// The module and instance scripts are stripped independently, in the order they appear
+		const allBlocks = [svelteAST.module, svelteAST.instance].filter((block) => !!block);
+		if (!allBlocks.some(isTs) && !forceStrip) {
+			return null;
+		}
+		const blocks = allBlocks
+			.filter((block) => isTs(block) || forceStrip)
+			.sort((a, b) => a.start - b.start);
+
+		// Typed reactive declarations aren't valid TypeScript, so they are rewritten before parsing
+		const sources = allBlocks.map((block) => {
+			const scriptContent = content.slice(block.content.start, block.content.end);
+			return applyEdits(scriptContent, getSvelteTypedReactiveEdits(scriptContent));
+		});
+
+		// Imports used by the markup are kept, along with stores it or the scripts subscribe to as `$store`
+		const scriptNames = sources.map((source) => collectIdentifierNames(source.code));
+		const templateReferences = collectSvelteTemplateReferences(svelteAST);
+		for (const name of scriptNames.flatMap((names) => [...names])) {
+			if (/^\$[^$]/.test(name)) templateReferences.add(name.slice(1));
 		}
 
-		let generate: any = generateModule;
-		if (typeof generateModule === 'object') {
-			if (typeof (generateModule as any)['default'] === 'function') {
-				generate = (generateModule as any)['default'];
-			} else if (
-				typeof (generateModule as any)['default'] === 'object' &&
-				typeof (generateModule as any)['default']['default'] === 'function'
-			) {
-				generate = (generateModule as any)['default']['default'];
+		const edits: TextEdit[] = [];
+		const scripts: ComponentScript[] = [];
+		for (const block of blocks) {
+			// Imports of the module script can also be used by the instance script, and the other way around
+			const references = new Set(templateReferences);
+			allBlocks.forEach((other, index) => {
+				if (other !== block) scriptNames[index].forEach((name) => references.add(name));
+			});
+
+			const contentStart = block.content.start;
+			const contentEnd = block.content.end;
+			const source = sources[allBlocks.indexOf(block)];
+			let processedScript = await stripTSFromScript(source.code, {
+				templateReferences: references,
+				...scriptOptions,
+			});
+			if (processedScript.mappings) {
+				processedScript.mappings = remapSourceLines(processedScript.mappings, source.lines);
+			}
+			if (removeUnusedImportsOpt) {
+				processedScript = await removeUnusedImports(processedScript, {
+					preserveSideEffects,
+					templateReferences: references,
+				});
+			}
+
+			// `lang="ts"` and `generics="T"` are removed, keeping `module` and any other attributes
+			for (const attribute of block.attributes) {
+				if (attribute.name === 'lang' || attribute.name === 'generics') {
+					const start = content.slice(0, attribute.start).trimEnd().length;
+					edits.push({ start, end: attribute.end, text: '' });
+				}
 			}
+			edits.push({ start: contentStart, end: contentEnd, text: `\n${processedScript.code}\n` });
+
+			scripts.push({ start: contentStart, mappings: processedScript.mappings });
 		}
+		edits.push(...(await getSvelteMarkupEdits(svelteAST.fragment, content)));
 
-		if (typeof traverse !== 'function' || typeof generate !== 'function') {
-			return code; // Return original code if Babel functions can't be resolved
+		return applyComponentEdits(content, edits, scripts, sourceMaps);
+	} else if (fileType === 'astro') {
+		// The frontmatter between `---` fences runs on the server, and may return a response at the top level
+		const frontmatter = /^(\s*---)([\s\S]*?\n)---(?=[^\S\n]*(?:\n|$))/.exec(content);
+		const markupStart = frontmatter?.[0].length ?? 0;
+
+		// Scripts with no attributes are bundled as TypeScript. Those with attributes, like `is:inline`,
+		// are sent to the browser as they are, so they are left alone.
+		const clientScripts = [...content.slice(markupStart).matchAll(/<script>([\s\S]*?)<\/script>/g)];
+
+		if (!frontmatter && clientScripts.length === 0) {
+			return null;
 		}
 
-		const ast = babelParse(code, {
-			sourceType: 'module',
-			plugins: isJSX ? ['jsx'] : [],
-		} as any);
+		const edits: TextEdit[] = [];
+		const scripts: ComponentScript[] = [];
+		const stripScript = async (start: number, end: number, isFrontmatter: boolean) => {
+			// The markup can't be parsed without the Astro compiler, so every name in it counts as referenced
+			// and keeps the frontmatter imports it may use
+			const references = isFrontmatter
+				? new Set(content.slice(markupStart).match(/[A-Za-z_$][\w$]*/g))
+				: undefined;
 
-		// Collect all identifiers used in the code, but skip import declarations
-		const usedIdentifiers = new Set<string>();
-		const jsxIdentifiers = new Set<string>();
+			let processedScript = await stripTSFromScript(content.slice(start, end), {
+				topLevelReturn: isFrontmatter,
+				templateReferences: references,
+				...scriptOptions,
+			});
+			if (removeUnusedImportsOpt) {
+				processedScript = await removeUnusedImports(processedScript, {
+					topLevelReturn: isFrontmatter,
+					preserveSideEffects,
+					templateReferences: references,
+				});
+			}
 
-		traverse(ast, {
-			ImportDeclaration(path: any) {
-				path.skip(); // Do not collect identifiers from import declarations
-			},
-			Identifier(path: any) {
-				usedIdentifiers.add(path.node.name);
-			},
-			JSXIdentifier(path: any) {
-				// Collect JSX identifiers separately to avoid treating them as React usage
-				jsxIdentifiers.add(path.node.name);
-			},
-			JSXMemberExpression(path: any) {
-				// Handle JSX namespaced components like React.Fragment
-				if (path.node.object.type === 'JSXIdentifier') {
-					usedIdentifiers.add(path.node.object.name);
+			edits.push({ start, end, text: `\n${processedScript.code}\n` });
+			scripts.push({ start, mappings: processedScript.mappings });
+		};
+
+		if (frontmatter) {
+			const start = frontmatter[1].length;
+			await stripScript(start, start + frontmatter[2].length, true);
+		}
+		for (const match of clientScripts) {
+			const start = markupStart + match.index! + '<script>'.length;
+			await stripScript(start, start + match[1].length, false);
+		}
+
+		// The template markup is left as it is
+		return applyComponentEdits(content, edits, scripts, sourceMaps);
+	} else if (fileType === 'md' || fileType === 'mdx') {
+		const fences = getMarkdownCodeFences(content);
+		const newline = content.includes('\r\n') ? '\r\n' : '\n';
+		const edits: TextEdit[] = [];
+		const scripts: ComponentScript[] = [];
+
+		// Every block that fails to parse is reported at once, with the line of the file the error is on
+		const errors: string[] = [];
+		const reportError = (error: any, start: number) => {
+			const line = getLineColumn(content, start).line + (error.loc?.line ?? 1);
+			errors.push(`  line ${line}: ${String(error.message ?? error).replace(/\s*\(\d+:\d+\)$/, '')}`);
+		};
+
+		for (const fence of fences) {
+			const language = MARKDOWN_FENCE_LANGUAGES[fence.lang];
+			if (!language) continue;
+
+			// The code keeps the newline after the opening fence, so its lines are the lines of the file.
+			// Snippets aren't files, so their imports aren't resolved, and they often import names they
+			// don't use, so only imports of types are removed.
+			const indent = new RegExp(`^ {0,${fence.indent}}`);
+			const source = content.slice(fence.codeStart, fence.codeEnd);
+			const code = source
+				.split('\n')
+				.map((line) => line.replace(indent, '').replace(/\r$/, ''))
+				.join('\n');
+			try {
+				const processed = await stripTSFromSource(code, language.fileType, {
+					...options,
+					removeUnusedImports: false,
+					filename: undefined,
+				});
+				const text = processed!.code
+					.replace(/\n+$/, '')
+					.split('\n')
+					.map((line) => (line ? ' '.repeat(fence.indent) + line : line))
+					.join(newline);
+				// Fences of only types, like an interface, document them and are kept as TypeScript
+				if (!text.trim() && code.trim()) continue;
+
+				edits.push(
+					{ start: fence.langStart, end: fence.langStart + fence.lang.length, text: language.lang },
+					{ start: fence.codeStart, end: fence.codeEnd, text: `\n${text}${source.endsWith('\r') ? '\r' : ''}` }
+				);
+				scripts.push({ start: fence.codeStart, mappings: processed!.mappings });
+			} catch (error) {
+				reportError(error, fence.codeStart);
+			}
+		}
+
+		// ESM blocks with TypeScript are stripped, and those that are already JavaScript are left as they are
+		const esmBlocks = fileType === 'mdx' ? getMdxESMBlocks(content, fences) : [];
+		for (const block of esmBlocks) {
+			const code = content.slice(block.start, block.end);
+			if (!forceStrip && isJavaScript(code)) continue;
+
+			// Imports can be used by the JSX of the document, which isn't parsed, so every name outside the block
+			// counts as referenced
+			const references = new Set((content.slice(0, block.start) + content.slice(block.end)).match(/[A-Za-z_$][\w$]*/g));
+			try {
+				let processedScript = await stripTSFromScript(code, {
+					jsx: true,
+					templateReferences: references,
+					...scriptOptions,
+				});
+				if (removeUnusedImportsOpt) {
+					processedScript = await removeUnusedImports(processedScript, {
+						jsx: true,
+						preserveSideEffects,
+						templateReferences: references,
+					});
 				}
-			},
-		});
 
-		// Remove unused imports
-		traverse(ast, {
-			ImportDeclaration(path: any) {
-				const specifiers = path.node.specifiers || [];
-				const usedSpecifiers: any[] = [];
+				edits.push({ start: block.start, end: block.end, text: processedScript.code });
+				scripts.push({ start: block.start, mappings: processedScript.mappings });
+			} catch (error) {
+				reportError(error, block.start);
+			}
+		}
+
+		if (errors.length > 0) {
+			throw new Error(`Unable to strip TypeScript from code blocks:\n${errors.join('\n')}`);
+		}
+		if (edits.length === 0) {
+			return null;
+		}
+		return applyComponentEdits(content, edits, scripts, sourceMaps);
+	} else {
+		throw new Error(
+			`Unsupported file type: ${fileType}. Supported types are ts, tsx, mts, cts, vue, svelte, astro, md, and mdx`
+		);
+	}
+}
+
+/**
+ * Options for the stripTSFromString function
+ */
+export type StripTSFromStringOptions = StripTSFileOptions & {
+	/** Path of the source, used to resolve relative imports and as the source of source maps (default: input.<type>) */
+	filename?: string;
+};
+
+/**
+ * Code stripped of TypeScript along with its source map
+ */
+export interface StripTSResult {
+	code: string;
+	map: SourceMap;
+}
+
+/**
+ * Strips TypeScript from a string and returns the JavaScript equivalent.
+ * @param content - The TypeScript content as a string.
+ * @param fileType - The type of file ('ts', 'tsx', 'mts', 'cts', 'vue', 'svelte', 'astro', 'md', 'mdx').
+ * @param options - Configuration options
+ * @returns The JavaScript content as a string. With `sourceMap: true`, the content and its source map, and
+ * with `sourceMap: 'inline'`, the content with the source map in a `sourceMappingURL` comment.
+ */
+export async function stripTSFromString(
+	content: string,
+	fileType: FileType,
+	options: StripTSFromStringOptions & { sourceMap: true }
+): Promise<StripTSResult>;
+export async function stripTSFromString(
+	content: string,
+	fileType: FileType,
+	options?: StripTSFromStringOptions & { sourceMap?: false | 'inline' }
+): Promise<string>;
+export async function stripTSFromString(
+	content: string,
+	fileType: FileType,
+	options: StripTSFromStringOptions = {}
+): Promise<string | StripTSResult> {
+	const processed = await stripTSFromSource(content, fileType, options);
+	if (!options.sourceMap) {
+		// Return original content if there was no TypeScript to strip
+		return processed?.code ?? content;
+	}
+
+	const result = processed ?? { code: content, mappings: getIdentityMappings(content) };
+	const source = options.filename ?? `input.${fileType}`;
+	if (options.sourceMap === 'inline') {
+		return attachSourceMap(result, source, content, undefined, toDataURL).code;
+	}
+	return { code: result.code, map: createSourceMap(result.mappings!, source, content) };
+}
+
+/**
+ * Returns the output path for a source file, mirroring its location relative to rootDir under outDir.
+ * @param filePath - Path to the source file.
+ * @param rootDir - Directory that source paths are resolved relative to.
+ * @param outDir - Output directory.
+ * @returns The output file path.
+ */
+function getOutputPath(filePath: string, rootDir: string, outDir: string): string {
+	const relativePath = path.relative(path.resolve(rootDir), path.resolve(filePath));
+	if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+		throw new Error(`File ${filePath} is not inside rootDir ${rootDir}`);
+	}
+
+	const ext = path.extname(filePath);
+	return path.join(outDir, relativePath.slice(0, relativePath.length - ext.length) + getOutputExtension(ext));
+}
+
+/**
+ * Infers the rootDir for a set of globs as the deepest directory containing the base of every glob,
+ * so `src/a/*.ts` and `src/b/*.ts` have a rootDir of `src`.
+ * @param fileGlobs - File globs or paths.
+ * @returns The common base directory.
+ */
+function inferRootDir(fileGlobs: string[]): string {
+	const bases = fg.generateTasks(fileGlobs).map((task) => path.resolve(task.base));
+	if (bases.length === 0) {
+		return '.';
+	}
+
+	const [first, ...rest] = bases.map((base) => base.split(path.sep));
+	let length = first.length;
+	for (const segments of rest) {
+		let i = 0;
+		while (i < length && i < segments.length && segments[i] === first[i]) i++;
+		length = i;
+	}
+
+	const commonBase = first.slice(0, length).join(path.sep) || path.sep;
+	return path.relative(process.cwd(), commonBase) || '.';
+}
+
+/**
+ * What converting a file does to its output file
+ */
+export interface StripTSFileResult {
+	/** Path to the source file */
+	source: string;
+	/** Path to the output file */
+	outPath: string;
+	/** Whether the output file is created, changed or left unchanged, as it already has the output */
+	status: 'created' | 'changed' | 'unchanged';
+	/** Unified diff of the output file against its previous content, with the `diff` option */
+	diff?: string;
+}
+
+/**
+ * Strips TypeScript from a single file and writes the output to outPath, unless it already has the output.
+ * @param filePath - Path to the file to process.
+ * @param outPath - Path to write the output to.
+ * @param options - Configuration options
+ * @returns What was done to the output file, or null if the file contains no TypeScript to strip.
+ */
+async function stripTSFromFile(
+	filePath: string,
+	outPath: string,
+	options: StripTSOptions = {}
+): Promise<StripTSFileResult | null> {
+	const { outDir, rootDir, ...stripOptions } = options;
+	const ext = path.extname(filePath);
+
+	if (!OUTPUT_EXTENSIONS[ext] && !['.vue', '.svelte', '.astro', '.md', '.mdx'].includes(ext)) {
+		throw new Error(
+			`Unsupported file type: ${ext}. Supported types are .ts, .tsx, .mts, .cts, .vue, .svelte, .astro, .md, and .mdx`
+		);
+	}
+
+	const fileContent = await fs.readFile(filePath, 'utf-8');
+	const fileType = ext.slice(1) as FileType;
+	const processed = await stripTSFromSource(fileContent, fileType, { ...stripOptions, filename: filePath });
+
+	if (processed === null) {
+		return null;
+	}
+
+	let { code } = processed;
+	let map: SourceMap | undefined;
+	if (options.sourceMap) {
+		const fileName = path.basename(outPath);
+		const source = path.relative(path.dirname(outPath), filePath).split(path.sep).join('/');
+		const inline = options.sourceMap === 'inline';
+		const mapped = attachSourceMap(processed, source, fileContent, fileName, (map) =>
+			inline ? toDataURL(map) : `${fileName}.map`
+		);
+		code = mapped.code;
+		map = inline ? undefined : mapped.map;
+	}
+
+	const previous = await fs.readFile(outPath, 'utf-8').catch(() => undefined);
+	const status = previous === undefined ? 'created' : previous === code ? 'unchanged' : 'changed';
+	const result: StripTSFileResult = { source: filePath, outPath, status };
+	if (options.diff && status !== 'unchanged') {
+		result.diff = createTwoFilesPatch(previous === undefined ? '/dev/null' : outPath, outPath, previous ?? '', code);
+	}
+	if (options.dryRun) {
+		return result;
+	}
+
+	await fs.mkdir(path.dirname(outPath), { recursive: true });
+	if (map) {
+		await fs.writeFile(`${outPath}.map`, JSON.stringify(map), 'utf-8');
+	}
+	if (status !== 'unchanged') {
+		await fs.writeFile(outPath, code, 'utf-8');
+	}
+	return result;
+}
+
+/**
+ * Options for the stripTS function
+ */
+export interface StripTSOptions {
+	/** Output directory for processed files (default: 'output') */
+	outDir?: string;
+	/**
+	 * Directory whose structure is mirrored under outDir, so `src/a/index.ts` is written to
+	 * `output/a/index.js` with a rootDir of `src` (default: the common base directory of the globs)
+	 */
+	rootDir?: string;
+	/** Force processing even if lang doesn't equal "ts" (for Vue files) (default: false) */
+	forceStrip?: boolean;
+	/** Remove unused imports after TypeScript stripping (default: true) */
+	removeUnusedImports?: boolean;
+	/**
+	 * Keep imports and exports exactly as written, only removing those marked with `type`, like the
+	 * TypeScript option of the same name. Imports left with no bindings are kept as side-effect imports. (default: false)
+	 */
+	verbatimModuleSyntax?: boolean;
+	/**
+	 * Whether imports that are only used as types are removed entirely or kept as side-effect imports,
+	 * like the TypeScript option of the same name (default: 'remove')
+	 */
+	importsNotUsedAsValues?: 'remove' | 'preserve';
+	/**
+	 * The JSX runtime the output is compiled with. The classic runtime needs `React` (or the factory
+	 * named by a `@jsx` pragma) in scope, so its import is kept in files with JSX. (default: 'automatic')
+	 */
+	jsxRuntime?: 'classic' | 'automatic';
+	/**
+	 * Keep decorators as TC39 stage 3 decorators, or lower legacy `experimentalDecorators` into helper
+	 * calls like tsc does. Parameter decorators are dropped when decorators are preserved. (default: 'preserve')
+	 */
+	decorators?: 'preserve' | 'legacy';
+	/**
+	 * How relative import specifiers are rewritten. 'rewrite' changes TypeScript extensions to the ones their files
+	 * are written with, so `./Button.tsx` becomes `./Button.jsx` and `./Button.js` does too when it refers to
+	 * `Button.tsx`. 'explicit' also adds the extension to extensionless specifiers, as ESM-strict output
+	 * needs, so `./utils` becomes `./utils.js`. (default: 'rewrite')
+	 */
+	importExtensions?: 'rewrite' | 'explicit' | 'preserve';
+	/**
+	 * Keep the removed types as JSDoc comments, so the JavaScript can still be type checked with `checkJs`.
+	 * Parameter and return types become `@param` and `@returns` tags, interfaces and type aliases `@typedef`
+	 * comments and class fields `@type` tags. (default: false)
+	 */
+	jsdoc?: boolean;
+	/**
+	 * Generate source maps from the output back to the TypeScript source. With `true`, maps are written to
+	 * `.map` files next to the output, and with 'inline' they are added to the output as data URLs. The maps of
+	 * Vue and Svelte components cover the whole file, and the `sourceMappingURL` comment is added at the end of
+	 * the `<script>` block. (default: false)
+	 */
+	sourceMap?: boolean | 'inline';
+	/**
+	 * Convert files in place, writing `foo.js` next to `foo.ts` and deleting `foo.ts` instead of writing copies to
+	 * outDir. Declaration files are deleted, the nearest tsconfig.json becomes a jsconfig.json, and `typescript`
+	 * and `@types/*` are removed from the devDependencies of the nearest package.json. (default: false)
+	 */
+	inPlace?: boolean;
+	/** With inPlace, rename and delete files with `git mv` and `git rm` so their history is kept (default: false) */
+	gitMove?: boolean;
+	/** Work out what would be written to each output file without writing anything (default: false) */
+	dryRun?: boolean;
+	/** Include a unified diff of each output file against its previous content in the results (default: false) */
+	diff?: boolean;
+	/** Options for files of one type on top of the others, as in `{ vue: { forceStrip: true } }` */
+	overrides?: Partial<Record<FileType, StripTSFileOptions>>;
+	/**
+	 * Path of the config file to load, or false to not load one. By default, the first of `strip-ts.config.ts`,
+	 * `.mjs`, `.js` and `.json` or the `"strip-ts"` key of package.json in the current directory is loaded.
+	 * Options and files given to stripTS take precedence over those of the config file.
+	 */
+	config?: string | false;
+	/** Name of the config file target to process (default: every target) */
+	target?: string;
+	/** Called when a file fails to process, after which the other files are still processed (default: logs the error) */
+	onError?: (error: unknown, file?: string) => void;
+}
+
+/**
+ * The options that apply to each file, which can be set for files of one type with `overrides`
+ */
+export type StripTSFileOptions = Omit<
+	StripTSOptions,
+	'outDir' | 'rootDir' | 'inPlace' | 'gitMove' | 'dryRun' | 'diff' | 'overrides' | 'config' | 'target' | 'onError'
+>;
+
+/**
+ * A target of a config file, with the files it processes and its options
+ */
+export interface StripTSTargetConfig extends Omit<StripTSOptions, 'config' | 'target' | 'onError'> {
+	/** File globs or paths to process */
+	include?: string | string[];
+	/** File globs or paths to skip */
+	exclude?: string | string[];
+}
+
+/**
+ * A strip-ts config file, as exported by `strip-ts.config.ts` or set as the `"strip-ts"` key of package.json
+ */
+export interface StripTSConfig extends StripTSTargetConfig {
+	/** Named targets, whose options apply on top of the options above */
+	targets?: Record<string, StripTSTargetConfig>;
+}
+
+/**
+ * Returns a config as it is, so config files get type checking and completions
+ * @param config - The config
+ * @returns The config
+ */
+export function defineConfig(config: StripTSConfig): StripTSConfig {
+	return config;
+}
+
+/**
+ * Config file names, in the order they are looked for
+ */
+const CONFIG_FILES = ['strip-ts.config.ts', 'strip-ts.config.mjs', 'strip-ts.config.js', 'strip-ts.config.json'];
 
-				// If there are no specifiers, this is a side-effect import (e.g., import './styles.css')
-				// We should preserve these imports as they have side effects
-				if (specifiers.length === 0) {
-					return; // Keep the import, don't process it
-				}
+/**
+ * Loads a config file. TypeScript config files are stripped to a temporary module next to them,
+ * so their imports resolve as they would from the config file.
+ * @param configPath - Path to the config file, or to a package.json with a `"strip-ts"` key
+ * @returns The config
+ */
+async function loadConfig(configPath: string): Promise<StripTSConfig> {
+	const ext = path.extname(configPath);
+	if (ext === '.json') {
+		const json = JSON.parse(await fs.readFile(configPath, 'utf-8'));
+		return path.basename(configPath) === 'package.json' ? (json['strip-ts'] ?? {}) : json;
+	}
 
-				specifiers.forEach((specifier: any) => {
-					if (specifier.type === 'ImportDefaultSpecifier') {
-						// Check if default import is used (as identifier or JSX element)
-						const isUsed = usedIdentifiers.has(specifier.local.name);
-						const isUsedAsJSX = jsxIdentifiers.has(specifier.local.name);
-
-						// Special case: if it's React and not used as an identifier, consider it unused
-						if (specifier.local.name === 'React' && !isUsed) {
-							// Don't add to usedSpecifiers - React import not needed for JSX
-						} else if (isUsed || isUsedAsJSX) {
-							usedSpecifiers.push(specifier);
-						}
-					} else if (specifier.type === 'ImportSpecifier') {
-						// Check if named import is used (as identifier or JSX element)
-						const isUsed = usedIdentifiers.has(specifier.local.name);
-						const isUsedAsJSX = jsxIdentifiers.has(specifier.local.name);
-						if (isUsed || isUsedAsJSX) {
-							usedSpecifiers.push(specifier);
-						}
-					} else if (specifier.type === 'ImportNamespaceSpecifier') {
-						// Check if namespace import is used
-						const isUsed = usedIdentifiers.has(specifier.local.name);
-						const isUsedAsJSX = jsxIdentifiers.has(specifier.local.name);
-						if (isUsed || isUsedAsJSX) {
-							usedSpecifiers.push(specifier);
-						}
-					}
-				});
+	if (!['.ts', '.mts', '.js', '.mjs', '.cjs'].includes(ext)) {
+		throw new Error(`Unsupported config file type: ${ext}. Supported types are .ts, .mjs, .js, and .json`);
+	}
 
-				if (usedSpecifiers.length === 0) {
-					// Remove entire import if no specifiers are used
-					path.remove();
-				} else if (usedSpecifiers.length !== specifiers.length) {
-					// Update import to only include used specifiers
-					path.node.specifiers = usedSpecifiers;
-				}
-			},
-		});
+	let modulePath = path.resolve(configPath);
+	if (ext === '.ts' || ext === '.mts') {
+		const code = await stripTSFromString(await fs.readFile(configPath, 'utf-8'), 'ts', { filename: configPath });
+		modulePath = `${modulePath}.timestamp-${Date.now()}.mjs`;
+		await fs.writeFile(modulePath, code, 'utf-8');
+	}
 
-		const { code: processedCode } = generate(ast, { retainLines: true, comments: true });
-		// Collapse multiple blank lines into a single blank line
-		let cleanedCode = processedCode.replace(/\n{3,}/g, '\n\n');
-		// Remove leading blank lines at the start of the file
-		cleanedCode = cleanedCode.replace(/^\s*\n/, '');
-		return cleanedCode;
-	} catch (error) {
-		// If there's an error processing imports, return the original code
-		console.warn('Warning: Could not remove unused imports:', error);
-		return code;
+	try {
+		const module = await import(pathToFileURL(modulePath).href);
+		return module.default ?? module;
+	} finally {
+		if (modulePath !== path.resolve(configPath)) {
+			await fs.rm(modulePath, { force: true });
+		}
 	}
 }
 
 /**
- * Strips TypeScript from a string and returns the JavaScript equivalent.
- * @param content - The TypeScript content as a string.
- * @param fileType - The type of file ('ts', 'tsx', 'vue', 'svelte').
- * @param options - Configuration options
- * @returns The JavaScript content as a string.
+ * Finds and loads the config file in the current directory
+ * @returns The config, or undefined if there is none
  */
-export async function stripTSFromString(
-	content: string,
-	fileType: 'ts' | 'tsx' | 'vue' | 'svelte',
-	options: { forceStrip?: boolean; removeUnusedImports?: boolean } = {}
-): Promise<string> {
-	const { forceStrip = false, removeUnusedImports: removeUnusedImportsOpt = true } = options;
+async function findConfig(): Promise<StripTSConfig | undefined> {
+	const configFile = CONFIG_FILES.find((file) => isFile(file));
+	if (configFile) {
+		return loadConfig(configFile);
+	}
 
-	if (fileType === 'ts' || fileType === 'tsx') {
-		// console.log(`Processing TypeScript string with Babel: ${fileType}`);
-		try {
-			// Use dynamic imports that work better with TypeScript compilation
-			const [traverseModule, generateModule] = await Promise.all([
-				import('@babel/traverse'),
-				import('@babel/generator'),
-			]);
+	if (isFile('package.json')) {
+		const packageJson = JSON.parse(await fs.readFile('package.json', 'utf-8'));
+		return packageJson['strip-ts'];
+	}
+	return undefined;
+}
 
-			// Robustly extract traverse and generate functions
-			let traverse: any = traverseModule;
-			if (typeof traverseModule === 'object') {
-				if (typeof (traverseModule as any)['default'] === 'function') {
-					traverse = (traverseModule as any)['default'];
-				} else if (
-					typeof (traverseModule as any)['default'] === 'object' &&
-					typeof (traverseModule as any)['default']['default'] === 'function'
-				) {
-					traverse = (traverseModule as any)['default']['default'];
-				}
-			}
-			if (typeof traverse !== 'function') {
-				console.error(
-					'Could not resolve traverse function. TraverseModule:',
-					traverseModule,
-					'Type:',
-					typeof traverse
-				);
-				throw new Error('Babel traverse is not a function');
-			}
-
-			let generate: any = generateModule;
-			if (typeof generateModule === 'object') {
-				if (typeof (generateModule as any)['default'] === 'function') {
-					generate = (generateModule as any)['default'];
-				} else if (
-					typeof (generateModule as any)['default'] === 'object' &&
-					typeof (generateModule as any)['default']['default'] === 'function'
-				) {
-					generate = (generateModule as any)['default']['default'];
-				}
-			}
-			if (typeof generate !== 'function') {
-				console.error(
-					'Could not resolve generate function. GenerateModule:',
-					generateModule,
-					'Type:',
-					typeof generate
-				);
-				throw new Error('Babel generate is not a function');
-			}
+/**
+ * Merges options, where those that are set in the overriding options take precedence and the options
+ * of each file type are merged
+ * @param base - The base options
+ * @param override - The options that take precedence
+ * @returns The merged options
+ */
+function mergeOptions<T extends StripTSFileOptions>(base: T, override: T): T {
+	const merged: Record<string, unknown> = { ...base };
+	for (const [key, value] of Object.entries(override)) {
+		if (value !== undefined) merged[key] = value;
+	}
 
-			const isTSX = fileType === 'tsx';
-			const ast = babelParse(content, {
-				sourceType: 'module',
-				plugins: ['typescript', 'jsx'],
-			} as any);
+	const baseOverrides = (base as StripTSOptions).overrides;
+	const overrideOverrides = (override as StripTSOptions).overrides;
+	if (baseOverrides && overrideOverrides) {
+		const overrides = { ...baseOverrides };
+		for (const [fileType, options] of Object.entries(overrideOverrides) as [FileType, StripTSFileOptions][]) {
+			overrides[fileType] = mergeOptions(baseOverrides[fileType] ?? {}, options);
+		}
+		merged.overrides = overrides;
+	}
+	return merged as T;
+}
 
-			traverse(ast, {
-				TSTypeAnnotation(path: any) {
-					path.remove();
-				},
-				TSInterfaceDeclaration(path: any) {
-					path.remove();
-				},
-				TSTypeAliasDeclaration(path: any) {
-					path.remove();
-				},
-				TSTypeParameterInstantiation(path: any) {
-					// Remove generic type parameters like <number> in useState<number>(5)
-					path.remove();
-				},
-				TSAsExpression(path: any) {
-					// Remove "as" casts, keep the expression
-					path.replaceWith(path.node.expression);
-				},
-				TSNonNullExpression(path: any) {
-					// Remove non-null assertions ("!")
-					path.replaceWith(path.node.expression);
-				},
-			});
+/**
+ * A set of files to process with the same options, from the files given to stripTS or a config file target
+ */
+interface ResolvedTarget {
+	files: string[];
+	exclude: string[];
+	options: StripTSOptions;
+}
 
-			const { code } = generate(ast, { retainLines: true, comments: true });
+/**
+ * Resolves the files and options to process for each target, with the files and options given to stripTS
+ * taking precedence over those of the config file
+ * @param files - File globs or paths given to stripTS, if any
+ * @param options - Options given to stripTS
+ * @returns The files and options of each target
+ */
+async function resolveTargets(
+	files: string | string[] | undefined,
+	options: StripTSOptions
+): Promise<ResolvedTarget[]> {
+	const { config: configPath, target, ...givenOptions } = options;
+	const config = configPath === false ? undefined : configPath ? await loadConfig(configPath) : await findConfig();
+	const { targets = {}, ...baseConfig } = config ?? {};
 
-			// Remove unused imports after TypeScript stripping
-			let processedCode = removeUnusedImportsOpt ? await removeUnusedImports(code, isTSX) : code;
-			// Collapse multiple blank lines into a single blank line
-			processedCode = processedCode.replace(/\n{3,}/g, '\n\n');
-			// Remove leading blank lines at the start of the file
-			processedCode = processedCode.replace(/^\s*\n/, '');
-			// console.log(`Babel TypeScript processing completed for ${fileType}`);
-			return processedCode;
-		} catch (error) {
-			throw error;
-		}
-	} else if (fileType === 'vue') {
-		const sfc = parseVue(content);
-		const hasTs = sfc.descriptor.script?.lang === 'ts' || sfc.descriptor.scriptSetup?.lang === 'ts';
+	if (target && !targets[target]) {
+		throw new Error(`Target ${target} is not defined in the config file`);
+	}
+	const names = target ? [target] : Object.keys(targets);
+	const targetConfigs = names.length > 0 ? names.map((name) => mergeOptions(baseConfig, targets[name])) : [baseConfig];
 
-		if (!hasTs && !forceStrip) {
-			return content; // Return original content if no TypeScript
+	return targetConfigs.map(({ include, exclude = [], ...targetOptions }) => {
+		const fileGlobs = files ?? include;
+		if (!fileGlobs || fileGlobs.length === 0) {
+			throw new Error('No files to process. Pass file globs, or set include in a config file.');
 		}
+		return {
+			files: Array.isArray(fileGlobs) ? fileGlobs : [fileGlobs],
+			exclude: Array.isArray(exclude) ? exclude : [exclude],
+			options: mergeOptions<StripTSOptions>(targetOptions, givenOptions),
+		};
+	});
+}
 
-		// console.log(`Processing Vue string with TypeScript`);
-		try {
-			// Use Babel to strip TypeScript from the script content
-			const [traverseModule, generateModule] = await Promise.all([
-				import('@babel/traverse'),
-				import('@babel/generator'),
-			]);
-
-			// Robustly extract traverse and generate functions
-			let traverse: any = traverseModule;
-			if (typeof traverseModule === 'object') {
-				if (typeof (traverseModule as any)['default'] === 'function') {
-					traverse = (traverseModule as any)['default'];
-				} else if (
-					typeof (traverseModule as any)['default'] === 'object' &&
-					typeof (traverseModule as any)['default']['default'] === 'function'
-				) {
-					traverse = (traverseModule as any)['default']['default'];
-				}
-			}
-			if (typeof traverse !== 'function') {
-				throw new Error('Babel traverse is not a function');
-			}
+/**
+ * Returns the options for a file, with the options for its type applied
+ * @param options - The options
+ * @param file - Path to the file
+ * @returns The options for the file
+ */
+function getFileOptions(options: StripTSOptions, file: string): StripTSOptions {
+	const { overrides, ...rest } = options;
+	const fileOptions = overrides?.[path.extname(file).slice(1) as FileType];
+	return fileOptions ? mergeOptions<StripTSOptions>(rest, fileOptions) : rest;
+}
 
-			let generate: any = generateModule;
-			if (typeof generateModule === 'object') {
-				if (typeof (generateModule as any)['default'] === 'function') {
-					generate = (generateModule as any)['default'];
-				} else if (
-					typeof (generateModule as any)['default'] === 'object' &&
-					typeof (generateModule as any)['default']['default'] === 'function'
-				) {
-					generate = (generateModule as any)['default']['default'];
-				}
-			}
-			if (typeof generate !== 'function') {
-				throw new Error('Babel generate is not a function');
-			}
+/**
+ * Logs an error processing files, which is how errors are reported when no `onError` callback is given
+ * @param err - The error
+ * @param file - The file that failed to process, if the error is about a single file
+ */
+function logError(err: unknown, file?: string): void {
+	const message = err instanceof Error ? err.message : err;
+	console.error(file ? `Error processing file ${file}:` : 'Error:', message);
+}
 
-			// Process the script content with Babel
-			const scriptContent = sfc.descriptor.script?.content || sfc.descriptor.scriptSetup?.content || '';
-			const ast = babelParse(scriptContent, {
-				sourceType: 'module',
-				plugins: ['typescript'],
-			} as any);
+/**
+ * Plans the output path of every file up front, so files that would overwrite each other are caught
+ * before anything is written
+ * @param files - Paths of the source files
+ * @param rootDir - Directory that source paths are resolved relative to.
+ * @param outDir - Output directory.
+ * @returns The output path of each file
+ */
+function planOutputPaths(files: string[], rootDir: string, outDir: string): string[] {
+	const sources = new Map<string, string>();
+	return files.map((file) => {
+		const outPath = getOutputPath(file, rootDir, outDir);
+		const existing = sources.get(path.resolve(outPath));
+		if (existing) {
+			throw new Error(`${existing} and ${file} would both be written to ${outPath}`);
+		}
+		sources.set(path.resolve(outPath), file);
+		return outPath;
+	});
+}
 
-			traverse(ast, {
-				TSTypeAnnotation(path: any) {
-					path.remove();
-				},
-				TSInterfaceDeclaration(path: any) {
-					path.remove();
-				},
-				TSTypeAliasDeclaration(path: any) {
-					path.remove();
-				},
-				TSAsExpression(path: any) {
-					// Remove "as" casts, keep the expression
-					path.replaceWith(path.node.expression);
-				},
-				TSNonNullExpression(path: any) {
-					// Remove non-null assertions ("!")
-					path.replaceWith(path.node.expression);
-				},
-			});
+/**
+ * Strips TypeScript from files using glob patterns. Files and options that aren't given are taken from
+ * the config file, processing each of its targets.
+ * @param files - File globs or paths (can be a single string or array of strings), or undefined to use
+ * the include globs of the config file
+ * @param options - Configuration options
+ * @returns The output file of each file with TypeScript, and whether it was created, changed or left unchanged
+ */
+export async function stripTS(files?: string | string[], options: StripTSOptions = {}): Promise<StripTSFileResult[]> {
+	const results: StripTSFileResult[] = [];
+	for (const target of await resolveTargets(files, options)) {
+		results.push(...(target.options.inPlace ? await stripInPlace(target) : await stripTarget(target)));
+	}
+	return results;
+}
 
-			const { code: processedScript } = generate(ast, { retainLines: true, comments: true });
+/**
+ * Strips TypeScript from the files of a target
+ * @param target - The files and options of the target
+ * @returns The output file of each file with TypeScript
+ */
+async function stripTarget({ files: fileGlobs, exclude, options }: ResolvedTarget): Promise<StripTSFileResult[]> {
+	// Use fast-glob to resolve the file patterns
+	const resolvedFiles = await fg(fileGlobs, { onlyFiles: true, ignore: exclude });
 
-			// Note: We don't remove unused imports from Vue files because imports
-			// are often used in the template, which the removeUnusedImports function
-			// cannot analyze properly. The Vue compiler will handle unused imports.
+	if (resolvedFiles.length === 0) {
+		return [];
+	}
 
-			// Replace the script content in the Vue string
-			let replaced = content;
+	const { outDir = 'output', rootDir = inferRootDir(fileGlobs), onError = logError } = options;
+	const outPaths = planOutputPaths(resolvedFiles, rootDir, outDir);
 
-			// Handle script setup first
-			if (sfc.descriptor.scriptSetup) {
-				replaced = replaced
-					.replace(/<script setup[^>]*lang="ts"[^>]*>/, '<script>')
-					.replace(/<script setup[^>]*>[^]*?<\/script>/, `<script>\n${processedScript}\n</script>`);
-			} else if (sfc.descriptor.script) {
-				replaced = replaced
-					.replace(/<script[^>]*lang="ts"[^>]*>/, '<script>')
-					.replace(/<script[^>]*>[^]*?<\/script>/, `<script>\n${processedScript}\n</script>`);
-			}
+	const results: StripTSFileResult[] = [];
 
-			// console.log(`Vue TypeScript processing completed`);
-			return replaced;
-		} catch (error) {
-			throw error;
+	for (const [index, file] of resolvedFiles.entries()) {
+		try {
+			const result = await stripTSFromFile(file, outPaths[index], getFileOptions(options, file));
+			if (result) results.push(result);
+		} catch (err) {
+			// Report the error but continue processing other files
+			onError(err, file);
 		}
-	} else if (fileType === 'svelte') {
-		const processed = await preprocess(content, sveltePreprocess({ typescript: true }), {
-			filename: 'temp.svelte',
-		});
-		let replaced = processed.code.replace(/<script[^>]*lang="ts"[^>]*>/, '<script>');
+	}
 
-		// Extract and fix script content formatting to match Vue processing
-		const scriptMatch = replaced.match(/<script>([\s\S]*?)<\/script>/);
-		if (scriptMatch) {
-			const scriptContent = scriptMatch[1];
-			// Ensure there's a newline after <script> and before </script>
-			const formattedScript = scriptContent.trim();
-			replaced = replaced.replace(/<script>[\s\S]*?<\/script>/, `<script>\n${formattedScript}\n</script>`);
-		}
+	return results;
+}
 
-		// Note: We don't remove unused imports from Svelte files because imports
-		// are often used in the template, which the removeUnusedImports function
-		// cannot analyze properly. The Svelte compiler will handle unused imports.
+/**
+ * The changes an in-place conversion makes to a project
+ */
+export interface InPlacePlan {
+	/** Sources and the JavaScript files they become, which is the source itself for Vue, Svelte, Astro and Markdown */
+	files: { source: string; outPath: string }[];
+	/** Declaration files that are deleted */
+	declarations: string[];
+	/** The tsconfig.json that becomes a jsconfig.json, if there is one */
+	tsconfig?: { source: string; outPath: string };
+	/** The package.json whose TypeScript devDependencies are removed, if it has any */
+	packageJson?: { path: string; removedDependencies: string[] };
+}
 
-		return replaced;
-	} else {
-		throw new Error(`Unsupported file type: ${fileType}. Supported types are ts, tsx, vue, and svelte`);
+/**
+ * Compiler options that only apply to TypeScript sources or their declarations, which are dropped from jsconfig.json
+ */
+const TS_ONLY_COMPILER_OPTIONS = [
+	'allowJs',
+	'allowImportingTsExtensions',
+	'rewriteRelativeImportExtensions',
+	'declaration',
+	'declarationDir',
+	'declarationMap',
+	'emitDeclarationOnly',
+	'isolatedDeclarations',
+];
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Finds the nearest file with a name in a directory or its parents, stopping at the current directory
+ * @param name - The file name
+ * @param dir - The directory to start from
+ * @returns The path to the file, or undefined if there is none
+ */
+function findNearestFile(name: string, dir: string): string | undefined {
+	const stop = path.resolve();
+	for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+		const filePath = path.join(current, name);
+		if (isFile(filePath)) return path.relative(stop, filePath);
+		if (current === stop || path.relative(stop, current).startsWith('..')) return undefined;
 	}
 }
 
 /**
- * Strips TypeScript from a single file and writes the output to outDir.
- * @param filePath - Path to the file to process.
- * @param outDir - Output directory.
- * @param forceStrip - Force processing even if lang doesn't equal "ts" (for Vue files).
- * @returns The output file path.
+ * Converts the text of a tsconfig.json to a jsconfig.json, dropping TypeScript-only compiler options
+ * and changing the TypeScript extensions of its file patterns to JavaScript ones
+ * @param text - The tsconfig.json text, which may have comments
+ * @returns The jsconfig.json text
  */
-async function stripTSFromFile(
-	filePath: string,
-	outDir: string = 'output',
-	forceStrip: boolean = false,
-	removeUnusedImportsOpt: boolean = true
-): Promise<string | null> {
-	const ext = path.extname(filePath);
-	const fileName = path.basename(filePath);
-	const fileContent = await fs.readFile(filePath, 'utf-8');
+function convertTSConfig(text: string): string {
+	const { config, error } = ts.parseConfigFileTextToJson('tsconfig.json', text);
+	if (error) {
+		throw new Error(`Unable to parse tsconfig.json: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+	}
 
-	if (ext === '.ts' || ext === '.tsx') {
-		// console.log(`Processing TypeScript file with Babel: ${filePath}`);
-		try {
-			// Use dynamic imports that work better with TypeScript compilation
-			const [traverseModule, generateModule] = await Promise.all([
-				import('@babel/traverse'),
-				import('@babel/generator'),
-			]);
+	for (const option of TS_ONLY_COMPILER_OPTIONS) {
+		delete config.compilerOptions?.[option];
+	}
+	for (const key of ['files', 'include', 'exclude']) {
+		if (Array.isArray(config[key])) {
+			config[key] = config[key].map((pattern: string) => pattern.replace(/\.([mc]?)ts(x?)$/, '.$1js$2'));
+		}
+	}
+	return `${JSON.stringify(config, null, '\t')}\n`;
+}
 
-			// Robustly extract traverse and generate functions
-			let traverse: any = traverseModule;
-			if (typeof traverseModule === 'object') {
-				if (typeof (traverseModule as any)['default'] === 'function') {
-					traverse = (traverseModule as any)['default'];
-				} else if (
-					typeof (traverseModule as any)['default'] === 'object' &&
-					typeof (traverseModule as any)['default']['default'] === 'function'
-				) {
-					traverse = (traverseModule as any)['default']['default'];
-				}
-			}
-			if (typeof traverse !== 'function') {
-				console.error(
-					'Could not resolve traverse function. TraverseModule:',
-					traverseModule,
-					'Type:',
-					typeof traverse
-				);
-				throw new Error('Babel traverse is not a function');
-			}
-
-			let generate: any = generateModule;
-			if (typeof generateModule === 'object') {
-				if (typeof (generateModule as any)['default'] === 'function') {
-					generate = (generateModule as any)['default'];
-				} else if (
-					typeof (generateModule as any)['default'] === 'object' &&
-					typeof (generateModule as any)['default']['default'] === 'function'
-				) {
-					generate = (generateModule as any)['default']['default'];
-				}
-			}
-			if (typeof generate !== 'function') {
-				console.error(
-					'Could not resolve generate function. GenerateModule:',
-					generateModule,
-					'Type:',
-					typeof generate
-				);
-				throw new Error('Babel generate is not a function');
+/**
+ * Plans an in-place conversion of the files of a target
+ * @param target - The files and options of the target
+ * @returns The plan
+ */
+async function planTarget({ files: fileGlobs, exclude, options }: ResolvedTarget): Promise<InPlacePlan> {
+	const resolvedFiles = await fg(fileGlobs, { onlyFiles: true, ignore: exclude });
+	const isDeclaration = (file: string) => /\.d\.[mc]?ts$/.test(file);
+
+	const files = resolvedFiles
+		.filter((file) => !isDeclaration(file))
+		.map((source) => {
+			const ext = path.extname(source);
+			const outPath = source.slice(0, source.length - ext.length) + getOutputExtension(ext);
+			if (outPath !== source && isFile(outPath)) {
+				throw new Error(`${source} would be converted to ${outPath}, which already exists`);
 			}
+			return { source, outPath };
+		});
+	const plan: InPlacePlan = { files, declarations: resolvedFiles.filter(isDeclaration) };
 
-			const isTSX = ext === '.tsx';
-			const ast = babelParse(fileContent, {
-				sourceType: 'module',
-				plugins: ['typescript', 'jsx'],
-			} as any);
+	const { rootDir = inferRootDir(fileGlobs) } = options;
+	const tsconfig = findNearestFile('tsconfig.json', rootDir);
+	if (tsconfig) {
+		const outPath = path.join(path.dirname(tsconfig), 'jsconfig.json');
+		if (isFile(outPath)) {
+			throw new Error(`${tsconfig} would be converted to ${outPath}, which already exists`);
+		}
+		plan.tsconfig = { source: tsconfig, outPath };
+	}
 
-			traverse(ast, {
-				TSTypeAnnotation(path: any) {
-					path.remove();
-				},
-				TSInterfaceDeclaration(path: any) {
-					path.remove();
-				},
-				TSTypeAliasDeclaration(path: any) {
-					path.remove();
-				},
-				TSTypeParameterInstantiation(path: any) {
-					// Remove generic type parameters like <number> in useState<number>(5)
-					path.remove();
-				},
-				TSAsExpression(path: any) {
-					// Remove "as" casts, keep the expression
-					path.replaceWith(path.node.expression);
-				},
-				TSNonNullExpression(path: any) {
-					// Remove non-null assertions ("!")
-					path.replaceWith(path.node.expression);
-				},
-			});
+	const packageJsonPath = findNearestFile('package.json', rootDir);
+	if (packageJsonPath) {
+		const { devDependencies = {} } = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
+		const removedDependencies = Object.keys(devDependencies).filter(
+			(name) => name === 'typescript' || name.startsWith('@types/')
+		);
+		if (removedDependencies.length > 0) {
+			plan.packageJson = { path: packageJsonPath, removedDependencies };
+		}
+	}
+	return plan;
+}
 
-			const { code } = generate(ast, { retainLines: true, comments: true });
-
-			// Remove unused imports after TypeScript stripping
-			let processedCode = removeUnusedImportsOpt ? await removeUnusedImports(code, isTSX) : code;
-			// Collapse multiple blank lines into a single blank line
-			processedCode = processedCode.replace(/\n{3,}/g, '\n\n');
-			// Remove leading blank lines at the start of the file
-			processedCode = processedCode.replace(/^\s*\n/, '');
-
-			const outExt = ext === '.ts' ? '.js' : '.jsx';
-			const outPath = path.join(outDir, fileName.replace(ext, outExt));
-			await fs.mkdir(path.dirname(outPath), { recursive: true });
-			await fs.writeFile(outPath, processedCode, 'utf-8');
-			// console.log(`Babel TypeScript processing completed for ${filePath}`);
-			return outPath;
-		} catch (error) {
-			throw error;
-		}
-	} else if (ext === '.vue') {
-		const sfc = parseVue(fileContent);
-		const hasTs = sfc.descriptor.script?.lang === 'ts' || sfc.descriptor.scriptSetup?.lang === 'ts';
+/**
+ * Plans the in-place conversion stripTS makes with the same files and options, without changing any file,
+ * so it can be previewed first
+ * @param files - File globs or paths (can be a single string or array of strings), or undefined to use
+ * the include globs of the config file
+ * @param options - Configuration options
+ * @returns The plan of each target with the `inPlace` option, which is empty if stripTS writes copies to outDir
+ */
+export async function planInPlace(files?: string | string[], options: StripTSOptions = {}): Promise<InPlacePlan[]> {
+	const plans: InPlacePlan[] = [];
+	for (const target of await resolveTargets(files, options)) {
+		if (target.options.inPlace) plans.push(await planTarget(target));
+	}
+	return plans;
+}
 
-		if (!hasTs && !forceStrip) {
-			return null;
+/**
+ * Converts the files of a target in place, following its plan. With dryRun, only the output of each file
+ * is worked out.
+ * @param target - The files and options of the target
+ * @returns The JavaScript file of each file with TypeScript
+ */
+async function stripInPlace(target: ResolvedTarget): Promise<StripTSFileResult[]> {
+	const plan = await planTarget(target);
+	const { gitMove = false, dryRun = false, onError = logError } = target.options;
+	const git = (...args: string[]) => execFileAsync('git', args);
+
+	// Renamed files keep their history with `git mv`, which needs the destination not to exist yet
+	const move = async (source: string, outPath: string, content: string) => {
+		if (gitMove) {
+			await fs.rm(outPath, { force: true });
+			await git('mv', source, outPath);
+		} else {
+			await fs.rm(source);
 		}
+		await fs.writeFile(outPath, content, 'utf-8');
+	};
 
-		// console.log(`Processing Vue file with TypeScript: ${filePath}`);
+	// Every file is converted before any source is removed, as imports are resolved against the sources on disk
+	const results: StripTSFileResult[] = [];
+	let failed = false;
+	for (const { source, outPath } of plan.files) {
 		try {
-			// Use Babel to strip TypeScript from the script content
-			const [traverseModule, generateModule] = await Promise.all([
-				import('@babel/traverse'),
-				import('@babel/generator'),
-			]);
+			const result = await stripTSFromFile(source, outPath, getFileOptions(target.options, source));
+			if (result) results.push(result);
+		} catch (err) {
+			failed = true;
+			onError(err, source);
+		}
+	}
+	if (dryRun) {
+		return results;
+	}
 
-			// Robustly extract traverse and generate functions
-			let traverse: any = traverseModule;
-			if (typeof traverseModule === 'object') {
-				if (typeof (traverseModule as any)['default'] === 'function') {
-					traverse = (traverseModule as any)['default'];
-				} else if (
-					typeof (traverseModule as any)['default'] === 'object' &&
-					typeof (traverseModule as any)['default']['default'] === 'function'
-				) {
-					traverse = (traverseModule as any)['default']['default'];
-				}
-			}
-			if (typeof traverse !== 'function') {
-				throw new Error('Babel traverse is not a function');
-			}
+	for (const { source, outPath } of results) {
+		if (outPath === source) continue;
+		try {
+			await move(source, outPath, await fs.readFile(outPath, 'utf-8'));
+		} catch (err) {
+			failed = true;
+			onError(err, source);
+		}
+	}
 
-			let generate: any = generateModule;
-			if (typeof generateModule === 'object') {
-				if (typeof (generateModule as any)['default'] === 'function') {
-					generate = (generateModule as any)['default'];
-				} else if (
-					typeof (generateModule as any)['default'] === 'object' &&
-					typeof (generateModule as any)['default']['default'] === 'function'
-				) {
-					generate = (generateModule as any)['default']['default'];
-				}
-			}
-			if (typeof generate !== 'function') {
-				throw new Error('Babel generate is not a function');
-			}
+	// The TypeScript setup is only removed once every file is JavaScript
+	if (failed) {
+		onError(
+			new Error('Declaration files, tsconfig.json and package.json were left as they are, as some files failed to convert')
+		);
+		return results;
+	}
 
-			// Process the script content with Babel
-			const scriptContent = sfc.descriptor.script?.content || sfc.descriptor.scriptSetup?.content || '';
-			const ast = babelParse(scriptContent, {
-				sourceType: 'module',
-				plugins: ['typescript'],
-			} as any);
+	for (const declaration of plan.declarations) {
+		await (gitMove ? git('rm', '-q', declaration) : fs.rm(declaration));
+	}
 
-			traverse(ast, {
-				TSTypeAnnotation(path: any) {
-					path.remove();
-				},
-				TSInterfaceDeclaration(path: any) {
-					path.remove();
-				},
-				TSTypeAliasDeclaration(path: any) {
-					path.remove();
-				},
-				TSAsExpression(path: any) {
-					// Remove "as" casts, keep the expression
-					path.replaceWith(path.node.expression);
-				},
-				TSNonNullExpression(path: any) {
-					// Remove non-null assertions ("!")
-					path.replaceWith(path.node.expression);
-				},
-			});
+	if (plan.tsconfig) {
+		const { source, outPath } = plan.tsconfig;
+		await move(source, outPath, convertTSConfig(await fs.readFile(source, 'utf-8')));
+	}
 
-			const { code: processedScript } = generate(ast, { retainLines: true, comments: true });
-
-			// Note: We don't remove unused imports from Vue files because imports
-			// are often used in the template, which the removeUnusedImports function
-			// cannot analyze properly. The Vue compiler will handle unused imports.
-
-			// Replace the script content in the Vue file
-			let replaced = fileContent;
-
-			// Handle script setup first
-			if (sfc.descriptor.scriptSetup) {
-				replaced = replaced
-					.replace(/<script setup[^>]*lang="ts"[^>]*>/, '<script>')
-					.replace(/<script setup[^>]*>[^]*?<\/script>/, `<script>\n${processedScript}\n</script>`);
-			} else if (sfc.descriptor.script) {
-				replaced = replaced
-					.replace(/<script[^>]*lang="ts"[^>]*>/, '<script>')
-					.replace(/<script[^>]*>[^]*?<\/script>/, `<script>\n${processedScript}\n</script>`);
-			}
-
-			const outPath = path.join(outDir, fileName);
-			await fs.mkdir(path.dirname(outPath), { recursive: true });
-			await fs.writeFile(outPath, replaced, 'utf-8');
-			// console.log(`Vue TypeScript processing completed for ${filePath}`);
-			return outPath;
-		} catch (error) {
-			throw error;
-		}
-	} else if (ext === '.svelte') {
-		const processed = await preprocess(fileContent, sveltePreprocess({ typescript: true }), { filename: filePath });
-		let replaced = processed.code.replace(/<script[^>]*lang="ts"[^>]*>/, '<script>');
-
-		// Extract and fix script content formatting to match Vue processing
-		const scriptMatch = replaced.match(/<script>([\s\S]*?)<\/script>/);
-		if (scriptMatch) {
-			const scriptContent = scriptMatch[1];
-			// Ensure there's a newline after <script> and before </script>
-			const formattedScript = scriptContent.trim();
-			replaced = replaced.replace(/<script>[\s\S]*?<\/script>/, `<script>\n${formattedScript}\n</script>`);
-		}
-
-		// Note: We don't remove unused imports from Svelte files because imports
-		// are often used in the template, which the removeUnusedImports function
-		// cannot analyze properly. The Svelte compiler will handle unused imports.
-
-		const outPath = path.join(outDir, fileName);
-		await fs.mkdir(path.dirname(outPath), { recursive: true });
-		await fs.writeFile(outPath, replaced, 'utf-8');
-		return outPath;
-	} else {
-		throw new Error(`Unsupported file type: ${ext}. Supported types are .ts, .tsx, .vue, and .svelte`);
+	if (plan.packageJson) {
+		const text = await fs.readFile(plan.packageJson.path, 'utf-8');
+		const packageJson = JSON.parse(text);
+		for (const name of plan.packageJson.removedDependencies) {
+			delete packageJson.devDependencies[name];
+		}
+		const indent = /^[ \t]+/m.exec(text)?.[0] ?? '\t';
+		await fs.writeFile(plan.packageJson.path, `${JSON.stringify(packageJson, null, indent)}\n`, 'utf-8');
 	}
+	return results;
 }
 
 /**
- * Options for the stripTS function
+ * Options for the watchStrip function
  */
-export interface StripTSOptions {
-	/** Output directory for processed files (default: 'output') */
-	outDir?: string;
-	/** Force processing even if lang doesn't equal "ts" (for Vue files) (default: false) */
-	forceStrip?: boolean;
-	/** Remove unused imports after TypeScript stripping (default: true) */
-	removeUnusedImports?: boolean;
+export interface WatchStripOptions extends StripTSOptions {
+	/** Called when a source is written, with its output path */
+	onWrite?: (outPath: string, file: string) => void;
+	/** Called when the output of a source that was deleted or renamed is deleted */
+	onDelete?: (outPath: string, file: string) => void;
 }
 
 /**
- * Strips TypeScript from files using glob patterns.
- * @param files - File globs or paths (can be a single string or array of strings)
- * @param options - Configuration options
- * @returns Array of output file paths
+ * A running watchStrip watcher
  */
-export async function stripTS(files: string | string[], options: StripTSOptions = {}): Promise<string[]> {
-	const { outDir = 'output', forceStrip = false, removeUnusedImports: removeUnusedImportsOpt = true } = options;
+export interface StripTSWatcher {
+	/** Stops watching, after the files being processed are written */
+	close(): Promise<void>;
+}
 
-	// Normalize files to array
-	const fileGlobs = Array.isArray(files) ? files : [files];
+/**
+ * Strips TypeScript from files using glob patterns, then keeps the output in sync as sources change.
+ * Only sources whose modification time changed are processed again, and the outputs of deleted sources
+ * are deleted. Like stripTS, files and options that aren't given are taken from the config file.
+ * @param files - File globs or paths (can be a single string or array of strings), or undefined to use
+ * the include globs of the config file
+ * @param options - Configuration options, and callbacks for each output written or deleted. Errors keep the
+ * watcher running, and those that aren't about a single source, like two sources written to the same output,
+ * are passed to `onError` without a file.
+ * @returns The watcher, once the initial output is written
+ */
+export async function watchStrip(files?: string | string[], options: WatchStripOptions = {}): Promise<StripTSWatcher> {
+	const { onWrite, onDelete, ...stripOptions } = options;
+	const watchers: StripTSWatcher[] = [];
+	for (const target of await resolveTargets(files, stripOptions)) {
+		watchers.push(await watchTarget(target, { onWrite, onDelete }));
+	}
 
-	// Use fast-glob to resolve the file patterns
-	const resolvedFiles = await fg(fileGlobs, { onlyFiles: true });
+	return {
+		async close() {
+			await Promise.all(watchers.map((watcher) => watcher.close()));
+		},
+	};
+}
 
-	if (resolvedFiles.length === 0) {
-		return [];
+/**
+ * Watches the files of a target, keeping their output in sync
+ * @param target - The files and options of the target
+ * @param callbacks - Callbacks for each output written or deleted
+ * @returns The watcher, once the initial output is written
+ */
+async function watchTarget(
+	{ files: fileGlobs, exclude, options }: ResolvedTarget,
+	{ onWrite, onDelete }: Pick<WatchStripOptions, 'onWrite' | 'onDelete'>
+): Promise<StripTSWatcher> {
+	const { outDir = 'output', rootDir = inferRootDir(fileGlobs), onError = logError } = options;
+	if (options.inPlace || options.dryRun) {
+		throw new Error('Files can only be converted in place or as a dry run by stripTS, not while watching');
 	}
 
-	const results: string[] = [];
+	// Outputs like .vue files have the extension of their source, so the output directory is never
+	// treated as sources
+	const outRoot = path.resolve(outDir);
+	const isOutput = (file: string) => {
+		const relativePath = path.relative(outRoot, path.resolve(file));
+		return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+	};
+
+	// The modification time each source was processed at, and the output it was written to
+	const processed = new Map<string, { mtimeMs: number; outPath: string | null }>();
+	const deleteOutput = async (outPath: string) => {
+		await fs.rm(outPath, { force: true });
+		await fs.rm(`${outPath}.map`, { force: true });
+	};
+
+	const sync = async () => {
+		const resolvedFiles = (await fg(fileGlobs, { onlyFiles: true, ignore: exclude })).filter((file) => !isOutput(file));
+		const current = new Set(resolvedFiles);
+
+		for (const [file, { outPath }] of processed) {
+			if (current.has(file)) continue;
+			processed.delete(file);
+			if (outPath) {
+				await deleteOutput(outPath);
+				onDelete?.(outPath, file);
+			}
+		}
 
-	for (const file of resolvedFiles) {
+		let outPaths: string[];
 		try {
-			const outPath = await stripTSFromFile(file, outDir, forceStrip, removeUnusedImportsOpt);
-			if (outPath) results.push(outPath);
+			outPaths = planOutputPaths(resolvedFiles, rootDir, outDir);
 		} catch (err) {
-			// Log error but continue processing other files
-			console.error(`Error processing file ${file}:`, err instanceof Error ? err.message : err);
+			onError(err);
+			return;
 		}
-	}
 
-	return results;
+		for (const [index, file] of resolvedFiles.entries()) {
+			const previous = processed.get(file);
+			try {
+				const { mtimeMs } = await fs.stat(file);
+				if (previous?.mtimeMs === mtimeMs) continue;
+				processed.set(file, { mtimeMs, outPath: previous?.outPath ?? null });
+
+				const outPath = (await stripTSFromFile(file, outPaths[index], getFileOptions(options, file)))?.outPath ?? null;
+				// A source with no TypeScript left has no output
+				if (!outPath && previous?.outPath) {
+					await deleteOutput(previous.outPath);
+					onDelete?.(previous.outPath, file);
+				}
+				processed.set(file, { mtimeMs, outPath });
+				if (outPath) onWrite?.(outPath, file);
+			} catch (err) {
+				onError(err, file);
+			}
+		}
+	};
+
+	// Changes are batched, and each batch is synced after the one before it finishes. A batch that fails
+	// is reported, so the batches after it still run.
+	let running = Promise.resolve();
+	let timer: NodeJS.Timeout | undefined;
+	const schedule = () => {
+		clearTimeout(timer);
+		timer = setTimeout(() => {
+			running = running.then(sync).catch((err) => onError(err));
+		}, 50);
+	};
+
+	const bases = [...new Set(fg.generateTasks(fileGlobs).map((task) => path.resolve(task.base)))];
+	const watchers = bases.map((base) =>
+		watch(base, { recursive: true }, (_event, filename) => {
+			if (!filename || !isOutput(path.join(base, filename))) schedule();
+		})
+	);
+
+	running = sync();
+	await running;
+
+	return {
+		async close() {
+			clearTimeout(timer);
+			for (const watcher of watchers) watcher.close();
+			await running;
+		},
+	};
 }
@@ -1,10 +0,0 @@
-import { StrictMode } from 'react';
-import { createRoot } from 'react-dom/client';
-import './styles.css';
-import App from './App.tsx';
-
-createRoot(document.getElementById('app')).render(
-  <StrictMode>
-		<App />
-	</StrictMode>
-);
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { main, parseArguments } from '../src/cli';
+
+describe('parseArguments', () => {
+	it('should map flags to stripTS options', () => {
+		const { globs, options } = parseArguments([
+			'--out-dir',
+			'dist',
+			'--no-remove-unused-imports',
+			'--jsx-runtime',
+			'classic',
+			'--inline-source-map',
+			'src/**/*.ts',
+		]);
+
+		expect(globs).toEqual(['src/**/*.ts']);
+		expect(options).toMatchObject({
+			outDir: 'dist',
+			removeUnusedImports: false,
+			jsxRuntime: 'classic',
+			sourceMap: 'inline',
+		});
+	});
+
+	it('should leave options that are not given undefined so the config file applies', () => {
+		const { globs, options } = parseArguments([]);
+
+		expect(globs).toBeUndefined();
+		expect(options.removeUnusedImports).toBeUndefined();
+		expect(options.outDir).toBeUndefined();
+		expect(options.config).toBeUndefined();
+		expect(parseArguments(['--no-config']).options.config).toBe(false);
+	});
+
+	it('should throw for unknown flags and invalid values', () => {
+		expect(() => parseArguments(['--out-dri', 'dist'])).toThrow("Unknown option '--out-dri'");
+		expect(() => parseArguments(['--decorators', 'stage2'])).toThrow(
+			'Invalid value for --decorators: stage2. Expected one of preserve, legacy'
+		);
+	});
+});
+
+describe('main', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'strip-ts-cli-'));
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		process.exitCode = undefined;
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	it('should print the version of the package', async () => {
+		const { version } = JSON.parse(await fs.readFile('package.json', 'utf-8'));
+
+		await main(['--version']);
+
+		expect(console.log).toHaveBeenCalledWith(version);
+		expect(process.exitCode).toBeUndefined();
+	});
+
+	it('should exit with code 1 for unknown flags', async () => {
+		await main(['--bogus']);
+
+		expect(console.error).toHaveBeenCalledWith('Run strip-ts --help for usage.');
+		expect(process.exitCode).toBe(1);
+	});
+
+	it('should exit with code 1 when a file fails and still write the others', async () => {
+		const root = tmpDir.replace(/\\/g, '/');
+		await fs.writeFile(path.join(tmpDir, 'valid.ts'), 'export const a: number = 1;');
+		await fs.writeFile(path.join(tmpDir, 'broken.ts'), 'const b: = 2;');
+
+		await main(['--no-config', '--out-dir', path.join(tmpDir, 'out'), `${root}/*.ts`]);
+
+		expect(process.exitCode).toBe(1);
+		expect(console.error).toHaveBeenCalledWith(
+			`❌ Error processing ${root}/broken.ts:`,
+			expect.stringContaining('Unexpected token')
+		);
+		expect(await fs.readFile(path.join(tmpDir, 'out/valid.js'), 'utf-8')).toContain('export const a = 1;');
+	});
+
+	it('should exit with code 1 without converting in place when the plan cannot be confirmed', async () => {
+		const root = tmpDir.replace(/\\/g, '/');
+		await fs.writeFile(path.join(tmpDir, 'index.ts'), 'export const a: number = 1;');
+
+		await main(['--no-config', '--in-place', `${root}/*.ts`]);
+
+		expect(console.log).toHaveBeenCalledWith('Run again with --yes to apply these changes.');
+		expect(process.exitCode).toBe(1);
+		await expect(fs.access(path.join(tmpDir, 'index.ts'))).resolves.toBeUndefined();
+		await expect(fs.access(path.join(tmpDir, 'index.js'))).rejects.toThrow();
+	});
+});
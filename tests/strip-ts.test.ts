@@ -1,7 +1,10 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
-import { stripTSFromString, stripTS } from '../src/strip-ts';
+import { decode } from '@jridgewell/sourcemap-codec';
+import { SourceMapConsumer } from 'source-map-js';
+import { stripTSFromString, stripTS, watchStrip, planInPlace } from '../src/strip-ts';
 
 describe('stripTS (unified API)', () => {
 	const testOutputDir = 'test-output';
@@ -12,9 +15,9 @@ describe('stripTS (unified API)', () => {
 			const result = await stripTS(`${testFilesDir}/Button.tsx`, { outDir: testOutputDir });
 
 			expect(result).toHaveLength(1);
-			expect(result[0]).toContain('Button.jsx');
+			expect(result[0].outPath).toContain('Button.jsx');
 
-			const outputContent = await fs.readFile(result[0], 'utf-8');
+			const outputContent = await fs.readFile(result[0].outPath, 'utf-8');
 			expect(outputContent).not.toContain(': React.ReactNode');
 			expect(outputContent).toContain('function Button(props)');
 		});
@@ -23,7 +26,7 @@ describe('stripTS (unified API)', () => {
 			const result = await stripTS([`${testFilesDir}/Button.tsx`], { outDir: testOutputDir });
 
 			expect(result).toHaveLength(1);
-			expect(result[0]).toContain('Button.jsx');
+			expect(result[0].outPath).toContain('Button.jsx');
 		});
 	});
 
@@ -34,10 +37,10 @@ describe('stripTS (unified API)', () => {
 			});
 
 			expect(result.length).toBeGreaterThan(1);
-			expect(result.some((path) => path.includes('Button.jsx'))).toBe(true);
-			expect(result.some((path) => path.includes('App.jsx'))).toBe(true);
-			expect(result.some((path) => path.includes('Button.vue'))).toBe(true);
-			expect(result.some((path) => path.includes('svelte.config.js'))).toBe(true);
+			expect(result.some(({ outPath }) => outPath.includes('Button.jsx'))).toBe(true);
+			expect(result.some(({ outPath }) => outPath.includes('App.jsx'))).toBe(true);
+			expect(result.some(({ outPath }) => outPath.includes('Button.vue'))).toBe(true);
+			expect(result.some(({ outPath }) => outPath.includes('svelte.config.js'))).toBe(true);
 		});
 
 		it('should handle mixed file types', async () => {
@@ -50,8 +53,8 @@ describe('stripTS (unified API)', () => {
 			const result = await stripTS([`${testFilesDir}/*.ts`, `${testFilesDir}/*.tsx`], { outDir: testOutputDir });
 
 			// Check Button.jsx formatting
-			const buttonFile = result.find((path) => path.includes('Button.jsx'));
-			const buttonContent = await fs.readFile(buttonFile!, 'utf-8');
+			const buttonFile = result.find(({ outPath }) => outPath.includes('Button.jsx'));
+			const buttonContent = await fs.readFile(buttonFile!.outPath, 'utf-8');
 
 			// Should have proper indentation and structure
 			expect(buttonContent).toContain('function Button(props)');
@@ -59,8 +62,8 @@ describe('stripTS (unified API)', () => {
 			expect(buttonContent).toContain('const buttonStyle = {');
 
 			// Check App.jsx formatting
-			const appFile = result.find((path) => path.includes('App.jsx'));
-			const appContent = await fs.readFile(appFile!, 'utf-8');
+			const appFile = result.find(({ outPath }) => outPath.includes('App.jsx'));
+			const appContent = await fs.readFile(appFile!.outPath, 'utf-8');
 
 			// Should have proper indentation and structure
 			expect(appContent).toContain('const App = () => {');
@@ -75,7 +78,7 @@ describe('stripTS (unified API)', () => {
 			const customOutDir = 'custom-output';
 			const result = await stripTS(`${testFilesDir}/Button.tsx`, { outDir: customOutDir });
 
-			expect(result[0]).toContain(customOutDir);
+			expect(result[0].outPath).toContain(customOutDir);
 		});
 
 		it('should respect forceStrip option for Vue files', async () => {
@@ -107,7 +110,7 @@ export default {
 			const result = await stripTS(vueWithTsFile, { outDir: testOutputDir, forceStrip: true });
 			expect(result).toHaveLength(1);
 
-			const outputContent = await fs.readFile(result[0], 'utf-8');
+			const outputContent = await fs.readFile(result[0].outPath, 'utf-8');
 			expect(outputContent).not.toContain('interface ButtonProps');
 			expect(outputContent).not.toContain(': MouseEvent');
 
@@ -121,12 +124,278 @@ export default {
 				removeUnusedImports: false,
 			});
 
-			const outputContent = await fs.readFile(result[0], 'utf-8');
+			const outputContent = await fs.readFile(result[0].outPath, 'utf-8');
 			// With removeUnusedImports: false, React import should be preserved
 			expect(outputContent).toContain("import React from 'react'");
 		});
 	});
 
+	describe('Projects in a temporary directory', () => {
+		let tmpDir: string;
+
+		beforeEach(async () => {
+			tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'strip-ts-'));
+			await fs.mkdir(path.join(tmpDir, 'src/components'), { recursive: true });
+			await fs.mkdir(path.join(tmpDir, 'src/utils'), { recursive: true });
+			await fs.writeFile(path.join(tmpDir, 'src/components/index.ts'), 'export const a: number = 1;');
+			await fs.writeFile(path.join(tmpDir, 'src/utils/index.ts'), 'export const b: number = 2;');
+		});
+
+		afterEach(async () => {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		});
+
+		describe('Directory structure', () => {
+			it('should mirror the source tree under outDir using the common glob base', async () => {
+				const outDir = path.join(tmpDir, 'out');
+				const result = await stripTS(
+					[`${tmpDir}/src/components/*.ts`, `${tmpDir}/src/utils/*.ts`].map((glob) => glob.replace(/\\/g, '/')),
+					{ outDir }
+				);
+
+				expect(result.map(({ outPath }) => outPath).sort()).toEqual([
+					path.join(outDir, 'components/index.js'),
+					path.join(outDir, 'utils/index.js'),
+				]);
+				expect(await fs.readFile(path.join(outDir, 'utils/index.js'), 'utf-8')).toContain('export const b = 2;');
+			});
+
+			it('should resolve output paths relative to rootDir', async () => {
+				const outDir = path.join(tmpDir, 'out');
+				const result = await stripTS(`${tmpDir.replace(/\\/g, '/')}/src/**/*.ts`, { outDir, rootDir: tmpDir });
+
+				expect(result.map(({ outPath }) => outPath).sort()).toEqual([
+					path.join(outDir, 'src/components/index.js'),
+					path.join(outDir, 'src/utils/index.js'),
+				]);
+			});
+
+			it('should throw when a file is outside rootDir', async () => {
+				await expect(
+					stripTS(`${tmpDir.replace(/\\/g, '/')}/src/**/*.ts`, {
+						outDir: path.join(tmpDir, 'out'),
+						rootDir: path.join(tmpDir, 'src/utils'),
+					})
+				).rejects.toThrow('is not inside rootDir');
+			});
+		});
+
+		describe('Import extensions', () => {
+			it('should rewrite imports to the extensions files are written with', async () => {
+				await fs.writeFile(path.join(tmpDir, 'src/utils/Icon.tsx'), 'export const Icon = () => <svg />;');
+				await fs.writeFile(path.join(tmpDir, 'src/utils/config.mts'), 'export const config = {};');
+				await fs.writeFile(
+					path.join(tmpDir, 'src/main.ts'),
+					[
+						"import { Icon } from './utils/Icon.js';",
+						"import { a } from './components';",
+						"import { config } from './utils/config.mts';",
+						'console.log(Icon, a, config);',
+					].join('\n')
+				);
+
+				const outDir = path.join(tmpDir, 'out');
+				await stripTS(`${tmpDir.replace(/\\/g, '/')}/src/**/*.{ts,tsx,mts}`, { outDir, importExtensions: 'explicit' });
+
+				const outputContent = await fs.readFile(path.join(outDir, 'main.js'), 'utf-8');
+				expect(outputContent).toContain("import { Icon } from './utils/Icon.jsx';");
+				expect(outputContent).toContain("import { a } from './components/index.js';");
+				expect(outputContent).toContain("import { config } from './utils/config.mjs';");
+				expect(await fs.readFile(path.join(outDir, 'utils/config.mjs'), 'utf-8')).toContain('export const config');
+			});
+		});
+
+		describe('Source map files', () => {
+			it('should write source maps next to the output', async () => {
+				const outDir = path.join(tmpDir, 'out');
+				await stripTS(`${tmpDir.replace(/\\/g, '/')}/src/**/*.ts`, { outDir, sourceMap: true });
+
+				const outputContent = await fs.readFile(path.join(outDir, 'utils/index.js'), 'utf-8');
+				expect(outputContent).toContain('//# sourceMappingURL=index.js.map');
+
+				const map = JSON.parse(await fs.readFile(path.join(outDir, 'utils/index.js.map'), 'utf-8'));
+				expect(map.file).toBe('index.js');
+				expect(map.sources).toEqual(['../../src/utils/index.ts']);
+			});
+		});
+
+		describe('Watch mode', () => {
+			it('should keep the output in sync with the sources while watching', async () => {
+				const outDir = path.join(tmpDir, 'out');
+				const errors: unknown[] = [];
+				const watcher = await watchStrip(`${tmpDir.replace(/\\/g, '/')}/src/**/*.ts`, {
+					outDir,
+					onError: (err) => errors.push(err),
+				});
+				const waitFor = (callback: () => Promise<void> | void) => vi.waitFor(callback, { timeout: 5000 });
+
+				try {
+					expect(await fs.readFile(path.join(outDir, 'utils/index.js'), 'utf-8')).toContain('export const b = 2;');
+
+					await fs.writeFile(path.join(tmpDir, 'src/utils/index.ts'), 'export const b: number = 3;');
+					await waitFor(async () => {
+						expect(await fs.readFile(path.join(outDir, 'utils/index.js'), 'utf-8')).toContain('export const b = 3;');
+					});
+
+					// Parse failures are reported without stopping the watcher
+					await fs.writeFile(path.join(tmpDir, 'src/utils/broken.ts'), 'const = ;');
+					await waitFor(() => expect(errors).toHaveLength(1));
+
+					await fs.rename(path.join(tmpDir, 'src/components/index.ts'), path.join(tmpDir, 'src/components/a.ts'));
+					await waitFor(async () => {
+						expect(await fs.readFile(path.join(outDir, 'components/a.js'), 'utf-8')).toContain('export const a = 1;');
+						await expect(fs.access(path.join(outDir, 'components/index.js'))).rejects.toThrow();
+					});
+				} finally {
+					await watcher.close();
+				}
+			});
+		});
+
+		describe('Config files', () => {
+			it('should load files, targets and file type overrides from a config file', async () => {
+				const root = tmpDir.replace(/\\/g, '/');
+				await fs.writeFile(path.join(tmpDir, 'src/utils/index.test.ts'), 'export const c: number = 3;');
+				await fs.writeFile(path.join(tmpDir, 'src/App.vue'), '<script>\nlet count: number = 0;\n</script>\n');
+				const configPath = path.join(tmpDir, 'strip-ts.config.ts');
+				await fs.writeFile(
+					configPath,
+					`const outDir: string = ${JSON.stringify(path.join(tmpDir, 'out'))};
+export default {
+	exclude: ['**/*.test.ts'],
+	overrides: { vue: { forceStrip: true } },
+	targets: {
+		utils: { include: '${root}/src/utils/*.ts', outDir: outDir + '/utils' },
+		app: { include: '${root}/src/*.vue', outDir: outDir + '/app' },
+	},
+};
+`
+				);
+
+				const result = await stripTS(undefined, { config: configPath });
+
+				expect(result.map(({ outPath }) => outPath).sort()).toEqual([
+					path.join(tmpDir, 'out/app/App.vue'),
+					path.join(tmpDir, 'out/utils/index.js'),
+				]);
+				expect(await fs.readFile(path.join(tmpDir, 'out/app/App.vue'), 'utf-8')).toContain('let count = 0;');
+			});
+
+			it('should let files and options given to stripTS override the config file', async () => {
+				const configPath = path.join(tmpDir, 'strip-ts.config.json');
+				await fs.writeFile(
+					configPath,
+					JSON.stringify({
+						include: `${tmpDir.replace(/\\/g, '/')}/src/**/*.ts`,
+						targets: { build: { outDir: path.join(tmpDir, 'build') } },
+					})
+				);
+
+				const outDir = path.join(tmpDir, 'out');
+				const result = await stripTS(`${tmpDir.replace(/\\/g, '/')}/src/utils/*.ts`, {
+					config: configPath,
+					target: 'build',
+					outDir,
+				});
+
+				expect(result.map(({ outPath }) => outPath)).toEqual([path.join(outDir, 'index.js')]);
+				await expect(stripTS(undefined, { config: configPath, target: 'test' })).rejects.toThrow(
+					'Target test is not defined in the config file'
+				);
+			});
+		});
+
+		describe('In-place conversion', () => {
+			it('should plan and then convert files in place', async () => {
+				const root = tmpDir.replace(/\\/g, '/');
+				await fs.writeFile(path.join(tmpDir, 'src/env.d.ts'), 'declare const env: string;');
+				await fs.writeFile(path.join(tmpDir, 'src/tsconfig.json'), '{ "compilerOptions": { "declaration": true } }');
+				await fs.writeFile(
+					path.join(tmpDir, 'src/package.json'),
+					JSON.stringify({ devDependencies: { typescript: '^5.8.3', '@types/node': '^22.0.0', vitest: '^3.2.4' } })
+				);
+
+				const [plan] = await planInPlace(`${root}/src/**/*.ts`, { inPlace: true, config: false });
+
+				expect(plan.files.map(({ outPath }) => path.relative(tmpDir, outPath)).sort()).toEqual([
+					'src/components/index.js',
+					'src/utils/index.js',
+				]);
+				expect(plan.declarations).toEqual([`${root}/src/env.d.ts`]);
+				expect(plan.packageJson?.removedDependencies).toEqual(['typescript', '@types/node']);
+				expect(await fs.readFile(path.join(tmpDir, 'src/utils/index.ts'), 'utf-8')).toContain('b: number');
+
+				await stripTS(`${root}/src/**/*.ts`, { inPlace: true, config: false });
+
+				expect(await fs.readFile(path.join(tmpDir, 'src/utils/index.js'), 'utf-8')).toContain('export const b = 2;');
+				await expect(fs.access(path.join(tmpDir, 'src/utils/index.ts'))).rejects.toThrow();
+				await expect(fs.access(path.join(tmpDir, 'src/env.d.ts'))).rejects.toThrow();
+				expect(JSON.parse(await fs.readFile(path.join(tmpDir, 'src/jsconfig.json'), 'utf-8'))).toEqual({
+					compilerOptions: {},
+				});
+				expect(JSON.parse(await fs.readFile(path.join(tmpDir, 'src/package.json'), 'utf-8'))).toEqual({
+					devDependencies: { vitest: '^3.2.4' },
+				});
+			});
+
+			it('should resolve imports in place against sources converted in the same run', async () => {
+				const root = tmpDir.replace(/\\/g, '/');
+				await fs.writeFile(path.join(tmpDir, 'src/A.tsx'), 'export const A = (): JSX.Element => <p />;');
+				await fs.writeFile(path.join(tmpDir, 'src/b.ts'), 'import { A } from "./A.js";\nexport const b = A;');
+
+				await stripTS(`${root}/src/*.{ts,tsx}`, { inPlace: true, config: false });
+
+				expect(await fs.readFile(path.join(tmpDir, 'src/b.js'), 'utf-8')).toContain('import { A } from "./A.jsx";');
+				await expect(fs.access(path.join(tmpDir, 'src/A.jsx'))).resolves.toBeUndefined();
+				await expect(fs.access(path.join(tmpDir, 'src/A.tsx'))).rejects.toThrow();
+			});
+
+			it('should keep the TypeScript setup when a file fails to convert in place', async () => {
+				const root = tmpDir.replace(/\\/g, '/');
+				await fs.writeFile(path.join(tmpDir, 'src/env.d.ts'), 'declare const env: string;');
+				await fs.writeFile(path.join(tmpDir, 'src/tsconfig.json'), '{}');
+				await fs.writeFile(path.join(tmpDir, 'src/broken.ts'), 'const broken: = 1;');
+				const onError = vi.fn();
+
+				await stripTS(`${root}/src/**/*.ts`, { inPlace: true, config: false, onError });
+
+				expect(onError).toHaveBeenCalledWith(expect.any(Error), `${root}/src/broken.ts`);
+				expect(onError).toHaveBeenLastCalledWith(
+					new Error(
+						'Declaration files, tsconfig.json and package.json were left as they are, as some files failed to convert'
+					)
+				);
+				expect(await fs.readFile(path.join(tmpDir, 'src/utils/index.js'), 'utf-8')).toContain('export const b = 2;');
+				await expect(fs.access(path.join(tmpDir, 'src/env.d.ts'))).resolves.toBeUndefined();
+				await expect(fs.access(path.join(tmpDir, 'src/tsconfig.json'))).resolves.toBeUndefined();
+			});
+		});
+
+		describe('Dry runs and diffs', () => {
+			it('should report what a dry run would write without writing it', async () => {
+				const outDir = path.join(tmpDir, 'out');
+				const files = `${tmpDir.replace(/\\/g, '/')}/src/**/*.ts`;
+				await fs.mkdir(path.join(outDir, 'utils'), { recursive: true });
+				await fs.writeFile(path.join(outDir, 'utils/index.js'), 'export const b = 1;\n');
+
+				const result = await stripTS(files, { outDir, dryRun: true, diff: true });
+
+				expect(result.map(({ outPath, status }) => [path.relative(outDir, outPath), status]).sort()).toEqual([
+					['components/index.js', 'created'],
+					['utils/index.js', 'changed'],
+				]);
+				expect(result.find(({ status }) => status === 'changed')?.diff).toContain('-export const b = 1;\n+export const b = 2;');
+				await expect(fs.access(path.join(outDir, 'components'))).rejects.toThrow();
+				expect(await fs.readFile(path.join(outDir, 'utils/index.js'), 'utf-8')).toBe('export const b = 1;\n');
+
+				await stripTS(files, { outDir });
+				const rerun = await stripTS(files, { outDir, dryRun: true, diff: true });
+				expect(rerun.map(({ status }) => status)).toEqual(['unchanged', 'unchanged']);
+				expect(rerun.every(({ diff }) => diff === undefined)).toBe(true);
+			});
+		});
+	});
+
 	describe('Error handling', () => {
 		it('should handle non-existent files gracefully', async () => {
 			const result = await stripTS('non-existent-file.ts', { outDir: testOutputDir });
@@ -138,86 +407,934 @@ export default {
 			const malformedFile = path.join(testFilesDir, 'malformed.ts');
 			await fs.writeFile(malformedFile, 'interface User { name: string; function greet() {');
 
-			const result = await stripTS([`${testFilesDir}/Button.tsx`, malformedFile], { outDir: testOutputDir });
+			const result = await stripTS([`${testFilesDir}/Button.tsx`, malformedFile], { outDir: testOutputDir });
+
+			// Should still process the valid file
+			expect(result.length).toBeGreaterThan(0);
+			expect(result.some(({ outPath }) => outPath.includes('Button.jsx'))).toBe(true);
+
+			// Clean up
+			await fs.unlink(malformedFile);
+		});
+
+		it('should report files that fail to onError', async () => {
+			const malformedFile = path.join(testFilesDir, 'malformed-reported.ts');
+			await fs.writeFile(malformedFile, 'const = ;');
+
+			const failures: string[] = [];
+			const result = await stripTS([`${testFilesDir}/Button.tsx`, malformedFile], {
+				outDir: testOutputDir,
+				onError: (_err, file) => failures.push(file!),
+			});
+
+			expect(failures).toEqual([malformedFile]);
+			expect(result).toHaveLength(1);
+
+			await fs.unlink(malformedFile);
+		});
+
+		it('should handle unsupported file types', async () => {
+			const unsupportedFile = path.join(testFilesDir, 'test.txt');
+			await fs.writeFile(unsupportedFile, 'This is a text file');
+
+			const result = await stripTS(unsupportedFile, { outDir: testOutputDir });
+			expect(result).toHaveLength(0);
+
+			// Clean up
+			await fs.unlink(unsupportedFile);
+		});
+	});
+});
+
+describe('stripTSFromString', () => {
+	describe('TypeScript (.ts) strings', () => {
+		it('should strip TypeScript annotations from .ts strings', async () => {
+			const tsCode = `
+interface User {
+	name: string;
+	age: number;
+}
+
+function greet(user: User): string {
+	return \`Hello \${user.name}, you are \${user.age} years old\`;
+}
+
+const user: User = {
+	name: 'John',
+	age: 30
+};
+
+const message: string = greet(user);
+console.log(message);
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			// Should remove TypeScript annotations
+			expect(result).not.toContain('interface User');
+			expect(result).not.toContain(': User');
+			expect(result).not.toContain(': string');
+			expect(result).not.toContain(': number');
+
+			// Should keep functionality
+			expect(result).toContain('function greet(user)');
+			expect(result).toContain('return `Hello ${user.name}, you are ${user.age} years old`');
+			expect(result).toContain('const user = {');
+			expect(result).toContain('const message = greet(user)');
+		});
+
+		it('should handle type assertions and non-null assertions', async () => {
+			const tsCode = `
+const value: any = 'hello';
+const length: number = (value as string).length;
+const element: HTMLElement = document.getElementById('app')!;
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			// Should remove type annotations and assertions
+			expect(result).not.toContain(': any');
+			expect(result).not.toContain(': number');
+			expect(result).not.toContain(': HTMLElement');
+			expect(result).not.toContain('as string');
+			expect(result).not.toContain('!');
+
+			// Should keep expressions
+			expect(result).toContain('const value =');
+			expect(result).toContain('const length = value.length');
+			expect(result).toContain('const element = document.getElementById');
+		});
+	});
+
+	describe('Unused imports', () => {
+		it('should not treat object keys, property accesses or shadowing locals as usages', async () => {
+			const tsCode = `
+import { Button } from './Button';
+import { format } from './format';
+import { theme } from './theme';
+import { used } from './used';
+
+const components = { Button: null, theme: 'dark' };
+console.log(components.Button, used);
+
+function render(format: string) {
+	return format;
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).not.toContain('./Button');
+			expect(result).not.toContain('./format');
+			expect(result).not.toContain('./theme');
+			expect(result).toContain("import { used } from './used';");
+		});
+
+		it('should keep imports used as JSX elements', async () => {
+			const tsxCode = `
+import * as UI from './ui';
+import Button from './Button';
+
+export const App = () => <UI.Panel><Button /></UI.Panel>;
+`;
+
+			const result = await stripTSFromString(tsxCode, 'tsx');
+
+			expect(result).toContain("import * as UI from './ui';");
+			expect(result).toContain("import Button from './Button';");
+		});
+
+		it('should remove an unreferenced React import with the automatic JSX runtime', async () => {
+			const tsxCode = `
+import React from 'react';
+
+export const App = () => <div />;
+`;
+
+			const result = await stripTSFromString(tsxCode, 'tsx');
+
+			expect(result).not.toContain('react');
+		});
+
+		it('should keep the React import in files with JSX when using the classic JSX runtime', async () => {
+			const tsxCode = `
+import React from 'react';
+
+export const App = () => <div />;
+`;
+
+			const result = await stripTSFromString(tsxCode, 'tsx', { jsxRuntime: 'classic' });
+
+			expect(result).toContain("import React from 'react';");
+		});
+
+		it('should keep the factory named by a @jsx pragma when using the classic JSX runtime', async () => {
+			const tsxCode = `
+/** @jsx h */
+import React from 'react';
+import { h } from 'preact';
+
+export const App = () => <div />;
+`;
+
+			const result = await stripTSFromString(tsxCode, 'tsx', { jsxRuntime: 'classic' });
+
+			expect(result).toContain("import { h } from 'preact';");
+			expect(result).not.toContain("from 'react'");
+		});
+	});
+
+	describe('Type-only imports and exports', () => {
+		const tsCode = `
+import type { Props } from './types';
+import { type Theme, useTheme } from './theme';
+import { type Only } from './only';
+import { Config } from './config';
+import './styles.css';
+interface Local {}
+export type { Props };
+export { type Theme } from './theme';
+export type * from './all';
+export { Local };
+const config: Config = useTheme();
+`;
+
+		it('should remove type-only imports and exports even when unused imports are kept', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', { removeUnusedImports: false });
+
+			expect(result).not.toContain('./types');
+			expect(result).not.toContain('./only');
+			expect(result).not.toContain('./all');
+			expect(result).not.toMatch(/\bTheme\b/);
+			expect(result).not.toContain('Local');
+			expect(result).toContain("import { useTheme } from './theme';");
+			expect(result).toContain("import './styles.css';");
+		});
+
+		it('should remove imports that are only used as types', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', { removeUnusedImports: false });
+
+			expect(result).not.toContain('Config');
+			expect(result).toContain('const config = useTheme();');
+		});
+
+		it('should keep side-effect imports with verbatimModuleSyntax', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', {
+				removeUnusedImports: false,
+				verbatimModuleSyntax: true,
+			});
+
+			expect(result).not.toContain('./types');
+			expect(result).toContain("import './only';");
+			expect(result).toContain("import { Config } from './config';");
+			expect(result).toContain("import './theme';");
+		});
+
+		it('should keep imports only used as types as side-effect imports with importsNotUsedAsValues: preserve', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', { importsNotUsedAsValues: 'preserve' });
+
+			expect(result).not.toContain('./types');
+			expect(result).toContain("import './only';");
+			expect(result).toContain("import './config';");
+			expect(result).toContain("import './styles.css';");
+		});
+	});
+
+	describe('Import specifiers', () => {
+		const tsCode = `
+import { format } from './format.ts';
+import Button from "./Button.tsx";
+import { parse } from './parse';
+import React from 'react';
+export * from './config.mts';
+const legacy = require('./legacy.cts');
+const lazy = () => import('./Lazy.tsx');
+console.log(format, Button, parse, React, legacy, lazy);
+`;
+
+		it('should rewrite TypeScript extensions to their output extensions', async () => {
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain("import { format } from './format.js';");
+			expect(result).toContain('import Button from "./Button.jsx";');
+			expect(result).toContain("import { parse } from './parse';");
+			expect(result).toContain("import React from 'react';");
+			expect(result).toContain("export * from './config.mjs';");
+			expect(result).toContain("require('./legacy.cjs')");
+			expect(result).toContain("import('./Lazy.jsx')");
+		});
+
+		it('should add extensions to extensionless specifiers with importExtensions: explicit', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', { importExtensions: 'explicit' });
+
+			expect(result).toContain("import { parse } from './parse.js';");
+			expect(result).toContain("import React from 'react';");
+		});
+
+		it('should keep specifiers as written with importExtensions: preserve', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', { importExtensions: 'preserve' });
+
+			expect(result).toContain("import { format } from './format.ts';");
+			expect(result).toContain("import('./Lazy.tsx')");
+		});
+	});
+
+	describe('JSDoc', () => {
+		it('should keep parameter and return types as JSDoc tags', async () => {
+			const tsCode = `
+/**
+ * Formats a user
+ * @param user The user
+ */
+export function format<T>(user: User, prefix = 'Hi', ...rest: string[]): string {
+	return prefix + user.name;
+}
+
+export const add = (a: number, b?: number): number => a + (b ?? 0);
+`;
+			const result = await stripTSFromString(tsCode, 'ts', { jsdoc: true });
+
+			expect(result).toContain(
+				[
+					'/**',
+					' * Formats a user',
+					' * @template T',
+					' * @param {User} user The user',
+					' * @param {...string} rest',
+					' * @returns {string}',
+					' */',
+					"export function format(user, prefix = 'Hi', ...rest) {",
+				].join('\n')
+			);
+			expect(result).toContain(
+				['/**', ' * @param {number} a', ' * @param {number} [b]', ' * @returns {number}', ' */'].join('\n')
+			);
+		});
+
+		it('should convert interfaces and type aliases to typedefs', async () => {
+			const tsCode = `
+import type { Theme } from './theme.ts';
+
+export interface User {
+	/** The user's name */
+	name: string;
+	age?: number;
+	greet(other: User): string;
+}
+
+export type Id = string | number;
+`;
+			const result = await stripTSFromString(tsCode, 'ts', { jsdoc: true });
+
+			expect(result).toContain("/** @import { Theme } from './theme.js' */");
+			expect(result).toContain(
+				[
+					'/**',
+					' * @typedef {Object} User',
+					" * @property {string} name - The user's name",
+					' * @property {number} [age]',
+					' * @property {(other: User) => string} greet',
+					' */',
+				].join('\n')
+			);
+			expect(result).toContain('@typedef {string | number} Id');
+			expect(result).not.toContain('interface');
+		});
+
+		it('should add @type tags to class fields and typed variables', async () => {
+			const tsCode = `
+class Store {
+	items: string[] = [];
+}
+const count: number = 0;
+`;
+			const result = await stripTSFromString(tsCode, 'ts', { jsdoc: true });
+
+			expect(result).toContain('/** @type {string[]} */');
+			expect(result).toContain('/** @type {number} */\nconst count = 0;');
+		});
+	});
+
+	describe('Source maps', () => {
+		/** Returns the 0-based source line the first segment of an output line maps to */
+		const getSourceLine = (mappings: string, line: number) => decode(mappings)[line][0]?.[2];
+
+		/** Returns the 1-based line and 0-based column of the first occurrence of text in code */
+		const getPosition = (code: string, text: string) => {
+			const lines = code.slice(0, code.indexOf(text)).split('\n');
+			return { line: lines.length, column: lines[lines.length - 1].length };
+		};
+
+		/** Reads the source map like tools do, and returns where the first occurrence of text in the output comes from */
+		const getOriginalPosition = (result: Awaited<ReturnType<typeof stripTSFromString>>, text: string) => {
+			const consumer = new SourceMapConsumer(result.map as any);
+			return consumer.originalPositionFor(getPosition(result.code, text));
+		};
+
+		it('should map the output back to the TypeScript source', async () => {
+			const tsCode = `import { used } from './used';
+
+
+interface User {
+	name: string;
+}
+export function greet(user: User): string {
+	throw new Error(user.name + used);
+}
+`;
+			const result = await stripTSFromString(tsCode, 'ts', { sourceMap: true, filename: 'greet.ts' });
+			const lines = result.code.split('\n');
+
+			expect(result.map.sources).toEqual(['greet.ts']);
+			expect(result.map.sourcesContent).toEqual([tsCode]);
+			expect(getSourceLine(result.map.mappings, lines.indexOf('export function greet(user) {'))).toBe(6);
+			expect(getSourceLine(result.map.mappings, lines.findIndex((line) => line.includes('throw')))).toBe(7);
+		});
+
+		it('should map the script block of a Vue component to its position in the file', async () => {
+			const vueCode = `<template>
+	<p>{{ count }}</p>
+</template>
+
+<script setup lang="ts">
+const count: number = 1;
+</script>
+`;
+			const result = await stripTSFromString(vueCode, 'vue', { sourceMap: true });
+			const lines = result.code.split('\n');
+
+			expect(getSourceLine(result.map.mappings, lines.indexOf('const count = 1;'))).toBe(5);
+			expect(getSourceLine(result.map.mappings, lines.indexOf('<template>'))).toBe(0);
+		});
+
+		it('should produce maps that source map consumers can read for .ts files', async () => {
+			const tsCode = `import { format } from './format';
+
+export function greet(name: string): string {
+	const message: string = format(name);
+	return message;
+}
+`;
+			const result = await stripTSFromString(tsCode, 'ts', { sourceMap: true });
+
+			expect(result.map.sources).toEqual(['input.ts']);
+			for (const text of ['greet', 'message', 'format(name)', 'return']) {
+				expect(getOriginalPosition(result, text)).toMatchObject({ source: 'input.ts', ...getPosition(tsCode, text) });
+			}
+		});
+
+		it('should produce maps that source map consumers can read for .tsx files', async () => {
+			const tsxCode = `type Props = { label: string };
+
+export const Button = ({ label }: Props) => {
+	return <button title={label}>{label}</button>;
+};
+`;
+			const result = await stripTSFromString(tsxCode, 'tsx', { sourceMap: true, filename: 'Button.tsx' });
+
+			for (const text of ['Button', '<button', 'title']) {
+				expect(getOriginalPosition(result, text)).toMatchObject({
+					source: 'Button.tsx',
+					...getPosition(tsxCode, text),
+				});
+			}
+		});
+
+		it('should produce maps that source map consumers can read for .vue files', async () => {
+			const vueCode = `<template>
+	<p>{{ total }}</p>
+</template>
+
+<script setup lang="ts">
+import { computed } from 'vue';
+const count: number = 1;
+const total = computed((): number => count * 2);
+</script>
+`;
+			const result = await stripTSFromString(vueCode, 'vue', { sourceMap: true, filename: 'Counter.vue' });
+
+			for (const text of ['computed', 'count', 'total =', '<template>']) {
+				expect(getOriginalPosition(result, text)).toMatchObject({
+					source: 'Counter.vue',
+					...getPosition(vueCode, text),
+				});
+			}
+		});
+
+		it('should add an inline source map', async () => {
+			const result = await stripTSFromString('const a: number = 1;', 'ts', { sourceMap: 'inline' });
+
+			expect(result).toMatch(/^const a = 1;\n\/\/# sourceMappingURL=data:application\/json;charset=utf-8;base64,/);
+		});
+	});
+
+	describe('Declarations and expressions', () => {
+		it('should strip generic type parameter declarations from functions', async () => {
+			const result = await stripTSFromString('function identity<T>(x: T): T {\n\treturn x;\n}\n', 'ts');
+			expect(result).toContain('function identity(x) {');
+		});
+
+		it('should strip generic type parameter declarations from classes', async () => {
+			const result = await stripTSFromString('class Box<T extends object = {}> extends Base<T> {}\n', 'ts');
+			expect(result).toContain('class Box extends Base {}');
+		});
+
+		it('should strip generic type parameter declarations from arrow functions', async () => {
+			const result = await stripTSFromString('const first = <K,>(items: K[]) => items[0];\n', 'tsx');
+			expect(result).toContain('const first = (items) => items[0];');
+		});
+
+		it('should strip satisfies expressions', async () => {
+			const result = await stripTSFromString('const config = { port: 80 } satisfies Config;\n', 'ts');
+			expect(result).toContain('const config = { port: 80 };');
+		});
+
+		it('should strip angle-bracket type assertions', async () => {
+			const result = await stripTSFromString(
+				"const el = <HTMLElement>document.body;\nconst tuple = <const>['a', 'b'];\n",
+				'ts'
+			);
+			expect(result).toContain('const el = document.body;');
+			expect(result).toContain("const tuple = ['a', 'b'];");
+		});
+
+		it('should strip instantiation expressions', async () => {
+			const result = await stripTSFromString('const makeStringBox = makeBox<string>;\n', 'ts');
+			expect(result).toContain('const makeStringBox = makeBox;');
+		});
+
+		it('should strip types from using and await using declarations', async () => {
+			const tsCode = 'using file = open() as Disposable;\nawait using lock = await acquire<Lock>();\n';
+			const result = await stripTSFromString(tsCode, 'ts');
+			expect(result).toContain('using file = open();');
+			expect(result).toContain('await using lock = await acquire();');
+		});
+
+		it('should strip definite assignment marks', async () => {
+			const result = await stripTSFromString('let ready!: boolean;\n', 'ts');
+			expect(result).toContain('let ready;');
+		});
+
+		it('should strip optional parameter markers', async () => {
+			const result = await stripTSFromString('function greet(name?: string, ...rest: string[]) {}\n', 'ts');
+			expect(result).toContain('function greet(name, ...rest) {}');
+		});
+
+		it('should strip this parameters', async () => {
+			const result = await stripTSFromString('function onClick(this: HTMLElement, event: Event) {}\n', 'ts');
+			expect(result).toContain('function onClick(event) {}');
+		});
+
+		it('should strip function overload signatures and declare statements', async () => {
+			const tsCode = `
+function parse(value: string): number;
+function parse(value: number): number;
+function parse(value: any) {
+	return Number(value);
+}
+declare function ambient(): void;
+declare const VERSION: string;
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result.match(/function parse/g)).toHaveLength(1);
+			expect(result).not.toContain('ambient');
+			expect(result).not.toContain('VERSION');
+		});
+
+		it('should convert import equals declarations', async () => {
+			const tsCode = `
+import fs = require('fs');
+import type Types = require('./types');
+import Alias = Outer.Inner.Value;
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts', { removeUnusedImports: false });
+
+			expect(result).toContain("const fs = require('fs');");
+			expect(result).toContain('const Alias = Outer.Inner.Value;');
+			expect(result).not.toContain('Types');
+		});
+
+		it('should convert export assignments and drop UMD namespace exports', async () => {
+			const result = await stripTSFromString('export as namespace MyLib;\nexport = createLib;\n', 'ts');
+			expect(result).not.toContain('MyLib');
+			expect(result).toContain('module.exports = createLib;');
+		});
+	});
+
+	describe('Enums', () => {
+		it('should convert numeric enums to frozen objects with reverse mappings', async () => {
+			const tsCode = `
+export enum Direction {
+	Up = 1,
+	Down,
+	Left = -3,
+	Right = Up << 2,
+}
+
+console.log(Direction.Up);
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).not.toContain('enum');
+			expect(result).toContain('export const Direction = Object.freeze({');
+			expect(result).toContain("Up: 1, 1: 'Up',");
+			expect(result).toContain("Down: 2, 2: 'Down',");
+			expect(result).toContain("Left: -3, '-3': 'Left',");
+			expect(result).toContain("Right: 4 /* Up << 2 */, 4: 'Right'");
+			expect(result).toContain('console.log(Direction.Up)');
+		});
+
+		it('should convert string enums without reverse mappings', async () => {
+			const tsCode = `
+enum Status {
+	Active = 'active',
+	Inactive = 'inactive',
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('const Status = Object.freeze({');
+			expect(result).toContain("Active: 'active',");
+			expect(result).toContain("Inactive: 'inactive'");
+			expect(result).not.toContain("'active': 'Active'");
+		});
+
+		it('should inline const enum usages and drop declare enums', async () => {
+			const tsCode = `
+const enum Mode {
+	Fast,
+	Slow = 'slow',
+}
+declare enum Ambient {
+	A,
+}
+
+function run(speed: number) {
+	return speed > 10 ? Mode.Fast : Mode['Slow'];
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).not.toContain('Mode =');
+			expect(result).not.toContain('Ambient');
+			expect(result).toContain("return speed > 10 ? 0 /* Mode.Fast */ : 'slow' /* Mode.Slow */;");
+		});
+
+		it('should keep exported const enums so other modules can import them', async () => {
+			const tsCode = `
+export const enum Size {
+	Small,
+	Large,
+}
+
+const size = Size.Large;
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('export const Size = Object.freeze({');
+			expect(result).toContain('const size = 1 /* Size.Large */;');
+		});
+
+		it('should convert enums with computed members to an IIFE where members can refer to each other', async () => {
+			const tsCode = `
+enum Sizes {
+	Small = 'abc'.length,
+	Large = Small * 2,
+	Label = 'size',
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('var Sizes;(function (Sizes) {');
+			expect(result).toContain("Sizes[Sizes['Large'] = Sizes.Small * 2] = 'Large';");
+			expect(result).toContain("Sizes['Label'] = 'size';");
+			expect(new Function(`${result}\nreturn [Sizes.Large, Sizes[6], Sizes.Label];`)()).toEqual([6, 'Large', 'size']);
+		});
+	});
+
+	describe('Classes', () => {
+		it('should remove access modifiers, abstract members, declare fields and implements clauses', async () => {
+			const tsCode = `
+export abstract class Store extends Base implements Disposable {
+	private readonly cache: Map<string, string> = new Map();
+	protected static count: number;
+	declare readonly brand: string;
+	abstract kind: string;
+	[key: string]: unknown;
+
+	abstract load(): void;
+
+	public override dispose(): void {}
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('export class Store extends Base {');
+			expect(result).toContain('cache = new Map();');
+			expect(result).toContain('static count;');
+			expect(result).toContain('dispose() {}');
+			expect(result).not.toMatch(/\b(private|protected|public|readonly|abstract|override|declare|implements)\b/);
+			expect(result).not.toContain('brand');
+			expect(result).not.toContain('kind');
+			expect(result).not.toContain('load');
+			expect(result).not.toContain('[key');
+		});
+
+		it('should turn constructor parameter properties into assignments', async () => {
+			const tsCode = `
+class Client extends Base {
+	constructor(private api: Api, public readonly retries: number = 3, label: string) {
+		super(label);
+		this.init();
+	}
+}
+
+class Plain {
+	constructor(private api: Api) {}
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('constructor(api, retries = 3, label) {');
+			expect(result).toContain('super(label);this.api = api;this.retries = retries;');
+			expect(result).toContain('constructor(api) {this.api = api;}');
+			expect(result).not.toContain('this.label');
+		});
+
+		it('should remove method overload signatures and ambient classes', async () => {
+			const tsCode = `
+declare class Ambient {}
+
+class Lookup {
+	get(id: string): string;
+	get(id: number): string;
+	get(id: string | number): string {
+		return String(id);
+	}
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).not.toContain('Ambient');
+			expect(result.match(/get\(/g)).toHaveLength(1);
+			expect(result).toContain('get(id) {');
+		});
+	});
+
+	describe('Decorators', () => {
+		const tsCode = `
+import { Injectable, Inject, Log } from './di';
+import { Api } from './api';
+
+@Injectable()
+export class Service {
+	constructor(@Inject(API) private api: Api) {}
+
+	@Log
+	run(id: string) {
+		return id;
+	}
+}
+`;
+
+		it('should keep TC39 decorators and drop parameter decorators by default', async () => {
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('@Injectable()');
+			expect(result).toContain('@Log');
+			expect(result).toContain('constructor(api) {this.api = api;}');
+			expect(result).not.toContain('@Inject(API)');
+			expect(result).not.toContain('./api');
+		});
+
+		it('should lower legacy decorators into helper calls', async () => {
+			const result = await stripTSFromString(tsCode, 'ts', { decorators: 'legacy' });
+
+			expect(result).not.toContain('@');
+			expect(result).toContain('export let Service = class');
+			expect(result).toContain("__decorate([Log], Service.prototype, 'run', null);");
+			expect(result).toContain('Service = __decorate([Injectable(), __param(0, Inject(API))], Service);');
+			expect(result).toContain('function __decorate(decorators, target, key, desc) {');
+			expect(result).toContain('function __param(paramIndex, decorator) {');
+			expect(result).toContain("import { Injectable, Inject, Log } from './di';");
+			expect(result).not.toContain('./api');
+		});
+
+		it('should produce legacy decorator output that runs', async () => {
+			const result = await stripTSFromString(
+				`
+const calls: string[] = [];
+const Sealed = (cls: Function) => { calls.push('class'); };
+const Log = (target: object, key: string, descriptor: PropertyDescriptor) => { calls.push(key); };
+@Sealed
+class Widget {
+	@Log render() {}
+}
+`,
+				'ts',
+				{ decorators: 'legacy' }
+			);
+
+			const calls = new Function(`${result}\nreturn calls;`)();
+			expect(calls).toEqual(['render', 'class']);
+		});
 
-			// Should still process the valid file
-			expect(result.length).toBeGreaterThan(0);
-			expect(result.some((path) => path.includes('Button.jsx'))).toBe(true);
+		it('should keep a decorated exported class on the line of its class keyword', async () => {
+			const result = await stripTSFromString(
+				`@Injectable()
+export class Service {
+	static create(): Service {
+		return new Service();
+	}
+}
+`,
+				'ts',
+				{ decorators: 'legacy' }
+			);
 
-			// Clean up
-			await fs.unlink(malformedFile);
-		});
+			expect(result.slice(0, result.indexOf('function __decorate'))).toBe(`let Service_1;export let Service = Service_1 = class Service {
+  static create() {
+    return new Service_1();
+  }
+};Service = Service_1 = __decorate([Injectable()], Service);
 
-		it('should handle unsupported file types', async () => {
-			const unsupportedFile = path.join(testFilesDir, 'test.txt');
-			await fs.writeFile(unsupportedFile, 'This is a text file');
+`);
+		});
 
-			const result = await stripTS(unsupportedFile, { outDir: testOutputDir });
-			expect(result).toHaveLength(0);
+		it('should give references to a decorated class from inside it the decorated class', async () => {
+			const result = await stripTSFromString(
+				`
+const Tagged = (cls: any) => class extends cls { tagged = true; };
+@Tagged
+class Widget {
+	static create(): Widget {
+		return new Widget();
+	}
+}
+`,
+				'ts',
+				{ decorators: 'legacy' }
+			);
 
-			// Clean up
-			await fs.unlink(unsupportedFile);
+			expect(result).toContain('let Widget_1;let Widget = Widget_1 = class');
+			expect(result).toContain('Widget = Widget_1 = __decorate([Tagged], Widget);');
+			expect(new Function(`${result}\nreturn Widget.create().tagged;`)()).toBe(true);
 		});
 	});
-});
 
-describe('stripTSFromString', () => {
-	describe('TypeScript (.ts) strings', () => {
-		it('should strip TypeScript annotations from .ts strings', async () => {
+	describe('Namespaces', () => {
+		it('should remove ambient module declarations and type-only namespaces', async () => {
 			const tsCode = `
-interface User {
-	name: string;
-	age: number;
+declare module 'virtual:config' {
+	export const config: Record<string, string>;
 }
-
-function greet(user: User): string {
-	return \`Hello \${user.name}, you are \${user.age} years old\`;
+declare global {
+	interface Window {
+		app: string;
+	}
+}
+namespace Types {
+	export interface User {}
+	export type Id = string;
 }
 
-const user: User = {
-	name: 'John',
-	age: 30
-};
-
-const message: string = greet(user);
-console.log(message);
+const ready = true;
 `;
 
 			const result = await stripTSFromString(tsCode, 'ts');
 
-			// Should remove TypeScript annotations
-			expect(result).not.toContain('interface User');
-			expect(result).not.toContain(': User');
-			expect(result).not.toContain(': string');
-			expect(result).not.toContain(': number');
+			expect(result).not.toContain('declare');
+			expect(result).not.toContain('Window');
+			expect(result).not.toContain('Types');
+			expect(result).toContain('const ready = true;');
+		});
 
-			// Should keep functionality
-			expect(result).toContain('function greet(user)');
-			expect(result).toContain('return `Hello ${user.name}, you are ${user.age} years old`');
-			expect(result).toContain('const user = {');
-			expect(result).toContain('const message = greet(user)');
+		it('should rewrite namespaces into the IIFE pattern emitted by tsc', async () => {
+			const tsCode = `
+export namespace Utils {
+	export const prefix: string = 'u-';
+	export let count = 0;
+	const secret = 1;
+	export function id(value: string): string {
+		count++;
+		return prefix + value + secret;
+	}
+	export namespace Inner {
+		export const deep = prefix;
+	}
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('export var Utils;(function (Utils) {');
+			expect(result).toContain("Utils.prefix = 'u-';");
+			expect(result).toContain('Utils.count = 0;');
+			expect(result).toContain('const secret = 1;');
+			expect(result).toContain('Utils.count++;');
+			expect(result).toContain('return Utils.prefix + value + secret;');
+			expect(result).toContain('Utils.id = id;');
+			expect(result).toContain('let Inner;(function (Inner) {');
+			expect(result).toContain('Inner.deep = Utils.prefix;');
+			expect(result).toContain('})(Inner = Utils.Inner || (Utils.Inner = {}));');
+			expect(result).toContain('})(Utils || (Utils = {}));');
 		});
 
-		it('should handle type assertions and non-null assertions', async () => {
+		it('should support merged and dotted namespaces', async () => {
 			const tsCode = `
-const value: any = 'hello';
-const length: number = (value as string).length;
-const element: HTMLElement = document.getElementById('app')!;
+namespace Shapes {
+	export const circle = 'circle';
+}
+namespace Shapes {
+	export const square = 'square';
+}
+namespace App.Config {
+	export const debug = false;
+}
+function plugin() {}
+namespace plugin {
+	export const version = 1;
+}
 `;
 
 			const result = await stripTSFromString(tsCode, 'ts');
 
-			// Should remove type annotations and assertions
-			expect(result).not.toContain(': any');
-			expect(result).not.toContain(': number');
-			expect(result).not.toContain(': HTMLElement');
-			expect(result).not.toContain('as string');
-			expect(result).not.toContain('!');
+			expect(result.match(/var Shapes;/g)).toHaveLength(1);
+			expect(result.match(/\}\)\(Shapes \|\| \(Shapes = \{\}\)\);/g)).toHaveLength(2);
+			expect(result).toContain('var App;(function (App) {let Config;(function (Config) {');
+			expect(result).toContain('})(Config = App.Config || (App.Config = {}));');
+			expect(result).not.toContain('var plugin');
+			expect(result).toContain('})(plugin || (plugin = {}));');
+		});
 
-			// Should keep expressions
-			expect(result).toContain('const value =');
-			expect(result).toContain('const length = value.length');
-			expect(result).toContain('const element = document.getElementById');
+		it('should access the exports of earlier blocks of a merged namespace on the namespace object', async () => {
+			const tsCode = `
+namespace Foo {
+	export const x = 1;
+	export function double(value: number) {
+		return value * 2;
+	}
+}
+namespace Foo {
+	export const y = double(x) + 1;
+}
+`;
+
+			const result = await stripTSFromString(tsCode, 'ts');
+
+			expect(result).toContain('Foo.y = Foo.double(Foo.x) + 1;');
+			expect(new Function(`${result}\nreturn Foo.y;`)()).toBe(3);
 		});
 	});
 
@@ -390,6 +1507,160 @@ export default {
 			expect(result).toContain('<template>');
 			expect(result).toContain('<script>');
 		});
+
+		it('should strip both <script> and <script setup> blocks, keeping their attributes', async () => {
+			const vueCode = `<script lang="ts">
+export default { inheritAttrs: false as boolean };
+</script>
+
+<script setup lang="ts" name="Counter">
+const count: number = 1;
+</script>
+
+<template>
+	<p lang="ts">{{ count }}</p>
+</template>
+`;
+
+			const result = await stripTSFromString(vueCode, 'vue');
+
+			expect(result).toContain('<script>\nexport default { inheritAttrs: false };\n</script>');
+			expect(result).toContain('<script setup name="Counter">\nconst count = 1;\n</script>');
+			expect(result).toContain('<p lang="ts">{{ count }}</p>');
+		});
+
+		it('should strip TypeScript from template expressions', async () => {
+			const vueCode = `<template>
+	<li v-for="item in (items as Item[])" :key="item.id" @click="select($event as MouseEvent)">{{ (item as Item).name }}</li>
+	<input @input="count++; emit('input', ($event.target as HTMLInputElement).value)" @blur="(e: FocusEvent) => blur(e)" />
+	<List v-if="show!" #default="{ row }: { row: Row }">{{ format<Row>(row) }}</List>
+	<p :title="'a'+b">{{ count+1 }}</p>
+</template>
+
+<script setup lang="ts">
+const count: number = 1;
+</script>
+`;
+
+			const result = await stripTSFromString(vueCode, 'vue');
+
+			expect(result).toContain(
+				'<li v-for="item in items" :key="item.id" @click="select($event)">{{ item.name }}</li>'
+			);
+			expect(result).toContain('<input @input="count++;emit(\'input\', $event.target.value)" @blur="(e) => blur(e)" />');
+			expect(result).toContain('<List v-if="show" #default="{ row }">{{ format(row) }}</List>');
+			// Expressions without TypeScript are kept exactly as written
+			expect(result).toContain('<p :title="\'a\'+b">{{ count+1 }}</p>');
+		});
+
+		it('should remove imports not used by the scripts or the template', async () => {
+			const vueCode = `<template>
+	<MyButton v-focus @click="open(helper)">{{ format(item) }}</MyButton>
+	<form-input />
+</template>
+
+<script lang="ts">
+import { shared } from './shared';
+export default { name: 'Panel' };
+</script>
+
+<script setup lang="ts">
+import MyButton from './MyButton.vue';
+import FormInput from './FormInput.vue';
+import { vFocus } from './directives';
+import { format, parse } from './utils';
+import { helper } from './helper';
+import { Item } from './types';
+import Unused from './Unused.vue';
+
+const item: Item = shared;
+function open(value: unknown) {}
+</script>
+`;
+
+			const result = await stripTSFromString(vueCode, 'vue');
+
+			expect(result).toContain("import { shared } from './shared';");
+			expect(result).toContain("import MyButton from './MyButton.vue';");
+			expect(result).toContain("import FormInput from './FormInput.vue';");
+			expect(result).toContain("import { vFocus } from './directives';");
+			expect(result).toContain("import { format } from './utils';");
+			expect(result).toContain("import { helper } from './helper';");
+			expect(result).not.toContain("from './types'");
+			expect(result).not.toContain('Unused');
+		});
+
+		it('should convert type-based defineProps to runtime props', async () => {
+			const vueCode = `<script setup lang="ts">
+interface BaseProps {
+	id: string | number;
+}
+interface Props extends BaseProps {
+	label: string;
+	count?: number;
+	items?: string[];
+	status: 'on' | 'off' | null;
+}
+
+const props = withDefaults(defineProps<Props>(), { count: 0, items: () => [] });
+const inline = defineProps<{
+	date?: Date;
+}>();
+</script>
+`;
+
+			const result = await stripTSFromString(vueCode, 'vue');
+
+			expect(result).toContain(
+				"const props = defineProps({ id: { type: [String, Number], required: true }, label: { type: String, required: true }, count: { type: Number, required: false, default: 0 }, items: { type: Array, required: false, default: () => [] }, status: { type: [String, null], required: true } });"
+			);
+			expect(result).toContain('const inline = defineProps({\n  date: { type: Date, required: false } }\n);');
+			expect(result).not.toContain('withDefaults');
+		});
+
+		it('should convert type-based defineEmits to runtime emits', async () => {
+			const vueCode = `<script setup lang="ts">
+type Events = {
+	change: [id: number];
+	'update:modelValue': [value: string];
+};
+const emit = defineEmits<Events>();
+const focusEmit = defineEmits<{
+	(e: 'focus' | 'blur', event: FocusEvent): void;
+}>();
+</script>
+`;
+
+			const result = await stripTSFromString(vueCode, 'vue');
+
+			expect(result).toContain("const emit = defineEmits(['change', 'update:modelValue']);");
+			expect(result).toContain("const focusEmit = defineEmits(['focus', 'blur']");
+		});
+
+		it('should add the model type to defineModel', async () => {
+			const vueCode = `<script setup lang="ts">
+const model = defineModel<string>();
+const checked = defineModel<boolean>('checked', { required: true });
+</script>
+`;
+
+			const result = await stripTSFromString(vueCode, 'vue');
+
+			expect(result).toContain('const model = defineModel({ type: String });');
+			expect(result).toContain("const checked = defineModel('checked', { type: Boolean, required: true });");
+		});
+
+		it('should throw for defineProps types that are not declared in the file', async () => {
+			const vueCode = `<script setup lang="ts">
+import type { Props } from './types';
+const props = defineProps<Props>();
+</script>
+`;
+
+			await expect(stripTSFromString(vueCode, 'vue')).rejects.toThrow(
+				'Unable to resolve the defineProps type Props, as only types declared in the same file are supported'
+			);
+		});
 	});
 
 	describe('Svelte (.svelte) strings', () => {
@@ -448,6 +1719,268 @@ export default {
 			expect(result).toContain('{/if}');
 			expect(result).toContain('<style>');
 		});
+
+		it('should keep the lines and comments of scripts', async () => {
+			const svelteCode = `<script lang="ts">
+	// The current count
+	let count: number = 0;
+
+	/** Adds to the count */
+	function add(by: number): void {
+		count += by;
+	}
+</script>
+
+<button on:click={() => add(1)}>{count}</button>
+`;
+
+			const result = await stripTSFromString(svelteCode, 'svelte');
+
+			// Scripts are printed like TypeScript and Vue scripts are, with the original lines and comments
+			expect(result).toBe(`<script>
+// The current count
+let count = 0;
+
+/** Adds to the count */
+function add(by) {
+  count += by;
+}
+</script>
+
+<button on:click={() => add(1)}>{count}</button>
+`);
+		});
+
+		it('should strip module and instance scripts, keeping their other attributes', async () => {
+			const svelteCode = `<script module lang="ts">
+	export interface Props<T> {
+		items: T[];
+		label?: string;
+	}
+	export const sizes: string[] = ['s', 'm'];
+</script>
+
+<script lang="ts" generics="T extends { id: number }">
+	import type { Snippet } from 'svelte';
+	let { items, label = 'Items' }: Props<T> & { children?: Snippet } = $props();
+	let count = $state<number>(0);
+</script>
+
+<p>{label} {count} {items.length} {sizes.length}</p>
+`;
+
+			const result = await stripTSFromString(svelteCode, 'svelte');
+
+			expect(result).toContain("<script module>\nexport const sizes = ['s', 'm'];\n</script>");
+			expect(result).toContain(
+				"<script>\nlet { items, label = 'Items' } = $props();\nlet count = $state(0);\n</script>"
+			);
+		});
+
+		it('should strip TypeScript from markup expressions', async () => {
+			const svelteCode = `<script lang="ts">
+	let value: unknown = 'Hi';
+</script>
+
+<p title={value as string} class="a {b!}" on:click={(e: MouseEvent) => go(e)}>{value as string} {plain+1}</p>
+{#each items as item: Item, i (item.id!)}{item}{/each}
+{#snippet row(r: Row, n: number)}
+	{@const label: string = r.label}
+	{label}
+{/snippet}
+`;
+
+			const result = await stripTSFromString(svelteCode, 'svelte');
+
+			expect(result).toContain('<p title={value} class="a {b}" on:click={(e) => go(e)}>{value} {plain+1}</p>');
+			expect(result).toContain('{#each items as item, i (item.id)}{item}{/each}');
+			expect(result).toContain('{#snippet row(r, n)}\n\t{@const label = r.label}');
+		});
+
+		it('should remove imports not used by the script or the markup', async () => {
+			const svelteCode = `<script lang="ts">
+	import Button from './Button.svelte';
+	import { fade } from 'svelte/transition';
+	import { count } from './stores';
+	import { Item } from './types';
+	import Unused from './Unused.svelte';
+
+	let item: Item = { id: 1 };
+</script>
+
+<Button transition:fade on:click={() => item.id++}>{$count}</Button>
+`;
+
+			const result = await stripTSFromString(svelteCode, 'svelte');
+
+			expect(result).toContain("import Button from './Button.svelte';");
+			expect(result).toContain("import { fade } from 'svelte/transition';");
+			expect(result).toContain("import { count } from './stores';");
+			expect(result).not.toContain("from './types'");
+			expect(result).not.toContain('Unused');
+		});
+	});
+
+	describe('Astro (.astro) strings', () => {
+		const markup = `
+<Layout title={title}>
+	<h1>{title} ({count})</h1>
+	{posts.map((post) => <Card post={post} />)}
+</Layout>
+`;
+
+		it('should strip the frontmatter and leave the markup as it is', async () => {
+			const astroCode = `---
+import Layout from '../layouts/Layout.astro';
+import Card from '../components/Card.astro';
+import type { Post } from '../types';
+import { formatDate } from '../utils';
+
+interface Props {
+	title: string;
+	posts: Post[];
+}
+
+const { title, posts } = Astro.props as Props;
+if (!posts) return Astro.redirect('/404');
+const count: number = posts.length;
+---
+${markup}`;
+
+			const result = await stripTSFromString(astroCode, 'astro');
+
+			expect(result).toBe(`---
+import Layout from '../layouts/Layout.astro';
+import Card from '../components/Card.astro';
+
+const { title, posts } = Astro.props;
+if (!posts) return Astro.redirect('/404');
+const count = posts.length;
+---
+${markup}`);
+		});
+
+		it('should strip scripts without attributes and leave inline scripts alone', async () => {
+			const astroCode = `<button>Click</button>
+
+<script>
+	import { track } from '../analytics';
+	const button = document.querySelector('button') as HTMLButtonElement;
+	button.addEventListener('click', (event: MouseEvent) => track(event));
+</script>
+
+<script is:inline>
+	const inline = document.title;
+</script>
+`;
+
+			const result = await stripTSFromString(astroCode, 'astro');
+
+			expect(result).toContain(`<script>
+import { track } from '../analytics';
+const button = document.querySelector('button');
+button.addEventListener('click', (event) => track(event));
+</script>`);
+			expect(result).toContain('<script is:inline>\n\tconst inline = document.title;\n</script>');
+		});
+	});
+
+	describe('Markdown (.md) and MDX (.mdx) strings', () => {
+		it('should convert TypeScript code fences to JavaScript fences', async () => {
+			const markdown = `# Usage
+
+\`\`\`ts title="sum.ts"
+export const sum = (a: number, b: number): number => a + b;
+\`\`\`
+
+- Components
+
+  \`\`\`tsx
+  const App = ({ n }: { n: number }) => <p>{n}</p>;
+  \`\`\`
+
+\`\`\`\`md
+\`\`\`typescript
+let nested: string;
+\`\`\`
+\`\`\`\`
+`;
+
+			const result = await stripTSFromString(markdown, 'md');
+
+			expect(result).toBe(`# Usage
+
+\`\`\`js title="sum.ts"
+export const sum = (a, b) => a + b;
+\`\`\`
+
+- Components
+
+  \`\`\`jsx
+  const App = ({ n }) => <p>{n}</p>;
+  \`\`\`
+
+\`\`\`\`md
+\`\`\`typescript
+let nested: string;
+\`\`\`
+\`\`\`\`
+`);
+		});
+
+		it('should keep code fences of only types as TypeScript', async () => {
+			const types = '```ts\ninterface Options {\n\tdebug: boolean;\n}\ntype Mode = "a" | "b";\n```\n';
+
+			const result = await stripTSFromString(`${types}\n\`\`\`ts\nlet a: Mode;\n\`\`\`\n`, 'md');
+
+			expect(result).toBe(`${types}\n\`\`\`js\nlet a;\n\`\`\`\n`);
+		});
+
+		it('should convert code fences of files with CRLF line endings', async () => {
+			const markdown = "# Usage\r\n\r\n```ts\r\nconst a: number = 1;\r\nconst b: string = '';\r\n```\r\n";
+
+			const result = await stripTSFromString(markdown, 'md');
+
+			expect(result).toBe("# Usage\r\n\r\n```js\r\nconst a = 1;\r\nconst b = '';\r\n```\r\n");
+		});
+
+		it('should keep imports that code fences never use and remove imports of types', async () => {
+			const markdown = `\`\`\`ts
+import { defineConfig } from 'strip-ts';
+import type { Options } from 'strip-ts';
+\`\`\`
+`;
+
+			const result = await stripTSFromString(markdown, 'md');
+
+			expect(result).toContain("\`\`\`js\nimport { defineConfig } from 'strip-ts';\n");
+			expect(result).not.toContain('Options');
+		});
+
+		it('should strip TypeScript from MDX import and export blocks', async () => {
+			const mdx = `import { Chart } from './Chart';
+import { Data } from './data';
+export const data: Data = { points: [] };
+
+import Plain from './Plain';
+
+<Chart data={data} />
+`;
+
+			const result = await stripTSFromString(mdx, 'mdx');
+
+			expect(result).toContain("import { Chart } from './Chart';\n\nexport const data = { points: [] };");
+			expect(result).toContain("import Plain from './Plain';");
+			expect(result).toContain('<Chart data={data} />');
+		});
+
+		it('should report every code fence that fails to parse with its line', async () => {
+			const markdown = '# Broken\n\n```ts\nconst a: = 1;\n```\n\n```tsx\nconst b = <div>;\n```\n';
+
+			await expect(stripTSFromString(markdown, 'md')).rejects.toThrow(
+				/Unable to strip TypeScript from code blocks:\n {2}line 4: .*\n {2}line 8: /
+			);
+		});
 	});
 
 	describe('Error handling', () => {